@@ -0,0 +1,107 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/** One line of `audit.jsonl`. */
+export interface AuditEntry {
+  timestamp: string;
+  /** Day of the change in the user's timezone, for date range queries. */
+  date: string;
+  tool: string;
+  profile?: string;
+  arguments: Record<string, unknown>;
+  /** IDs of what the call created or changed, e.g. the `food_entry_id` of a created entry. */
+  result_ids?: Record<string, (number | string)[]>;
+  outcome: 'success' | 'error';
+  error?: string;
+}
+
+export interface AuditQuery {
+  start_date?: string;
+  end_date?: string;
+  tool?: string;
+  profile?: string;
+  limit: number;
+}
+
+const SECRET_KEY = /secret|token|password/i;
+
+// Fields that name what a write created or changed. Other IDs in a result, like the food_id and
+// serving_id of a logged entry, only say what the change referred to.
+const CHANGED_ID_KEYS = new Set(['food_entry_id', 'new_food_entry_id', 'saved_meal_id', 'saved_meal_item_id', 'custom_food_id']);
+
+/** Arguments as logged: secrets are masked so the log can be shared. */
+export function redactArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, SECRET_KEY.test(key) ? '***' : value]));
+}
+
+/**
+ * Collects the IDs of what a write created or changed, anywhere in its result: `CHANGED_ID_KEYS`
+ * fields, and any `*_id` in a `{ value }` wrapper, which is how the API reports a new object.
+ */
+export function resultIds(data: unknown): Record<string, (number | string)[]> | undefined {
+  const ids: Record<string, Set<number | string>> = {};
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (typeof value !== 'object' || value === null) return;
+    for (const [key, child] of Object.entries(value)) {
+      const wrapped = typeof child === 'object' && child !== null && 'value' in child;
+      const id = wrapped ? child.value : child;
+      const changed = CHANGED_ID_KEYS.has(key) || (wrapped && key.endsWith('_id'));
+      if (changed && (typeof id === 'number' || typeof id === 'string')) {
+        (ids[key] ??= new Set()).add(id);
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(data);
+  const keys = Object.keys(ids);
+  return keys.length ? Object.fromEntries(keys.map((key) => [key, [...ids[key]]])) : undefined;
+}
+
+/** Append-only JSONL log of the writes tools made, one entry per call. */
+export class AuditLog {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`);
+    } catch (err) {
+      // The change itself already happened; don't turn it into a failed tool call
+      console.error('Failed to write audit log:', err);
+    }
+  }
+
+  /** Matching entries, newest first. */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    let lines: string[];
+    try {
+      lines = (await readFile(this.path, 'utf-8')).split('\n');
+    } catch {
+      return [];
+    }
+    const entries: AuditEntry[] = [];
+    for (let i = lines.length - 1; i >= 0 && entries.length < query.limit; i--) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]) as AuditEntry;
+      } catch {
+        continue;
+      }
+      if (query.start_date && entry.date < query.start_date) continue;
+      if (query.end_date && entry.date > query.end_date) continue;
+      if (query.tool && entry.tool !== query.tool) continue;
+      if (query.profile && entry.profile !== query.profile) continue;
+      entries.push(entry);
+    }
+    return entries;
+  }
+}
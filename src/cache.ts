@@ -0,0 +1,166 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Middleware } from 'openapi-fetch';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Cached public endpoints and how long their responses stay fresh. */
+export const CACHE_TTLS: Record<string, number> = {
+  '/food/v5': 7 * DAY_MS,
+  '/recipe/v2': 7 * DAY_MS,
+  '/food-categories/v2': 30 * DAY_MS,
+  '/brands/v2': 30 * DAY_MS,
+  '/recipe-types/v2': 30 * DAY_MS,
+};
+
+export interface ResponseCacheOptions {
+  dir: string;
+  /** Total size of cached bodies; least recently used entries are evicted beyond it. */
+  maxBytes: number;
+  ttls?: Record<string, number>;
+}
+
+interface CacheEntry {
+  path: string;
+  url: string;
+  expiresAt: number;
+  body: string;
+}
+
+function hasErrorBody(body: string): boolean {
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    return typeof parsed === 'object' && parsed !== null && 'error' in parsed;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * On-disk cache of public API GET responses, one JSON file per request. Keys cover the path and
+ * the full sorted query (`region`, `language`, ...); file mtimes track use for LRU eviction.
+ */
+export class ResponseCache {
+  private readonly dir: string;
+  private readonly maxBytes: number;
+  private readonly ttls: Record<string, number>;
+
+  constructor(options: ResponseCacheOptions) {
+    this.dir = options.dir;
+    this.maxBytes = options.maxBytes;
+    this.ttls = options.ttls ?? CACHE_TTLS;
+  }
+
+  /** openapi-fetch middleware; register it before auth so hits skip the token request. */
+  middleware(): Middleware {
+    return {
+      onRequest: async ({ request, schemaPath }) => {
+        if (request.method !== 'GET' || !this.ttls[schemaPath]) return undefined;
+        const body = await this.get(this.keyFor(request.url));
+        if (body === undefined) return undefined;
+        return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json', 'X-Cache': 'hit' } });
+      },
+      onResponse: async ({ request, response, schemaPath }) => {
+        const ttl = this.ttls[schemaPath];
+        if (request.method !== 'GET' || !ttl || !response.ok) return undefined;
+        const body = await response.clone().text();
+        // FatSecret reports errors with HTTP 200, so only cache real data
+        if (hasErrorBody(body)) return undefined;
+        await this.set(this.keyFor(request.url), { path: schemaPath, url: this.cleanUrl(request.url), expiresAt: Date.now() + ttl, body });
+        return undefined;
+      },
+    };
+  }
+
+  /** Removes every entry, or only those for one endpoint path. */
+  async clear(path?: string): Promise<{ removed: number; bytes: number }> {
+    let removed = 0;
+    let bytes = 0;
+    for (const file of await this.files()) {
+      if (path) {
+        const entry = await this.readEntry(file.name);
+        if (entry && entry.path !== path) continue;
+      }
+      await rm(join(this.dir, file.name), { force: true });
+      removed++;
+      bytes += file.size;
+    }
+    return { removed, bytes };
+  }
+
+  async stats(): Promise<{ entries: number; bytes: number; max_bytes: number }> {
+    const files = await this.files();
+    return { entries: files.length, bytes: files.reduce((sum, f) => sum + f.size, 0), max_bytes: this.maxBytes };
+  }
+
+  // Signed auth params are added after this middleware, but strip any just in case
+  private cleanUrl(url: string): string {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams].filter(([k]) => !k.startsWith('oauth_')).sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+    return parsed.toString();
+  }
+
+  private keyFor(url: string): string {
+    return createHash('sha256').update(this.cleanUrl(url)).digest('hex');
+  }
+
+  private async readEntry(name: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(join(this.dir, name), 'utf-8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async get(key: string): Promise<string | undefined> {
+    const name = `${key}.json`;
+    const entry = await this.readEntry(name);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await rm(join(this.dir, name), { force: true });
+      return undefined;
+    }
+    const now = new Date();
+    await utimes(join(this.dir, name), now, now).catch(() => undefined);
+    return entry.body;
+  }
+
+  private async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(join(this.dir, `${key}.json`), JSON.stringify(entry));
+      await this.evict();
+    } catch (err) {
+      // A broken cache must never fail the tool call
+      console.error('Failed to write response cache:', err);
+    }
+  }
+
+  private async files(): Promise<{ name: string; size: number; mtimeMs: number }[]> {
+    let names: string[];
+    try {
+      names = (await readdir(this.dir)).filter((n) => n.endsWith('.json'));
+    } catch {
+      return [];
+    }
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const s = await stat(join(this.dir, name)).catch(() => undefined);
+        return s ? { name, size: s.size, mtimeMs: s.mtimeMs } : undefined;
+      }),
+    );
+    return files.filter((f) => f !== undefined);
+  }
+
+  private async evict(): Promise<void> {
+    const files = (await this.files()).sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    for (const file of files) {
+      if (total <= this.maxBytes) break;
+      await rm(join(this.dir, file.name), { force: true });
+      total -= file.size;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { randomUUID } from 'node:crypto';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+interface PendingChange {
+  tool: string;
+  args: string;
+  expiresAt: number;
+}
+
+/**
+ * Single-use confirmation tokens for writes previewed in confirm mode. A token only applies the
+ * exact tool call that was previewed: same tool, same arguments, within the TTL.
+ */
+export class ConfirmationStore {
+  private readonly ttlMs: number;
+  private pending = new Map<string, PendingChange>();
+
+  constructor(ttlMs = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  issue(tool: string, args: unknown): string {
+    this.prune();
+    const token = randomUUID();
+    this.pending.set(token, { tool, args: JSON.stringify(args), expiresAt: Date.now() + this.ttlMs });
+    return token;
+  }
+
+  /** True if the token was issued for this call; the token is spent either way. */
+  consume(token: string, tool: string, args: unknown): boolean {
+    this.prune();
+    const change = this.pending.get(token);
+    this.pending.delete(token);
+    return change?.tool === tool && change.args === JSON.stringify(args);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, change] of this.pending) {
+      if (change.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
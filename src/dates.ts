@@ -0,0 +1,113 @@
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** FatSecret `date` parameters are days since 1970-01-01. */
+export function dateToDays(dateStr: string): number {
+  return Math.floor(new Date(dateStr + 'T00:00:00Z').getTime() / MS_PER_DAY);
+}
+
+/** Like `dateToDays`, but a missing date means today in the user's timezone. */
+export function optionalDateToDays(dateStr?: string): number {
+  return dateToDays(dateStr || today());
+}
+
+/** Inverse of `dateToDays`: turns a FatSecret `date_int` back into YYYY-MM-DD. */
+export function daysToDate(days: number): string {
+  return new Date(days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// ── Timezone ──
+
+let timeZone: string | undefined;
+
+/** Sets the zone "today" is computed in; throws a RangeError for unknown IANA names. */
+export function setTimeZone(zone: string | undefined): void {
+  if (zone) new Intl.DateTimeFormat('en-US', { timeZone: zone });
+  timeZone = zone || undefined;
+}
+
+/** The configured timezone, or the system's. */
+export function getTimeZone(): string {
+  return timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Today's date as YYYY-MM-DD in the user's timezone. */
+export function today(): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: getTimeZone(),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date());
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+// ── Relative dates ──
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// 1970-01-01 (day 0) was a Thursday
+function weekday(days: number): number {
+  return (((days + 4) % 7) + 7) % 7;
+}
+
+/**
+ * Resolves a date input to YYYY-MM-DD: an ISO date, `today`/`yesterday`/`tomorrow`,
+ * `[last|next|this] <weekday>`, `-3d`/`+1w` offsets or `3 days ago`. Returns undefined if invalid.
+ * A bare or `last` weekday is the most recent one before today.
+ */
+export function parseDateInput(input: string): string | undefined {
+  const value = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (ISO_DATE.test(value)) {
+    // Rejects impossible dates like 2025-02-30 or 2025-13-01
+    const days = dateToDays(value);
+    return Number.isFinite(days) && daysToDate(days) === value ? value : undefined;
+  }
+
+  const base = dateToDays(today());
+  const named: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+  if (value in named) return daysToDate(base + named[value]);
+
+  const offset = value.match(/^([+-]\d+) ?([dw])$/) ?? value.match(/^(\d+) (day|week)s? ago$/);
+  if (offset) {
+    const amount = offset[0].endsWith('ago') ? -Number(offset[1]) : Number(offset[1]);
+    return daysToDate(base + amount * (offset[2].startsWith('w') ? 7 : 1));
+  }
+
+  const day = value.match(/^(?:(last|next|this) )?(\w+)$/);
+  const target = day ? WEEKDAYS.indexOf(day[2]) : -1;
+  if (day && target >= 0) {
+    const current = weekday(base);
+    if (day[1] === 'next') return daysToDate(base + (((target - current + 6) % 7) + 1));
+    // "this <weekday>" is within the current Monday–Sunday week
+    if (day[1] === 'this') return daysToDate(base - ((current + 6) % 7) + ((target + 6) % 7));
+    return daysToDate(base - (((current - target + 6) % 7) + 1));
+  }
+  return undefined;
+}
+
+/** Every date from `start` to `end` inclusive, as YYYY-MM-DD. */
+export function datesInRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let day = dateToDays(start); day <= dateToDays(end); day++) dates.push(daysToDate(day));
+  return dates;
+}
+
+/** First day of each calendar month touched by the range, for the `*_month` endpoints. */
+export function monthsInRange(start: string, end: string): string[] {
+  const months: string[] = [];
+  const cursor = new Date(start.slice(0, 7) + '-01T00:00:00Z');
+  while (cursor.toISOString().slice(0, 10) <= end) {
+    months.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+/** Monday and Sunday of the ISO week containing `date`. */
+export function weekRange(date: string): [string, string] {
+  const days = dateToDays(date);
+  const monday = days - ((weekday(days) + 6) % 7);
+  return [daysToDate(monday), daysToDate(monday + 6)];
+}
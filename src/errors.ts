@@ -0,0 +1,162 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// ── Error classes ──
+
+/** Base class for errors that are reported back to the model as `isError` tool results. */
+export class FatSecretError extends Error {
+  readonly hint?: string;
+
+  constructor(message: string, hint?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.hint = hint;
+  }
+}
+
+/** API credentials (Client ID / Client Secret / Consumer Secret) are missing. */
+export class CredentialsNotConfiguredError extends FatSecretError {}
+
+/** A profile tool was called before the user authorized profile access. */
+export class ProfileNotAuthenticatedError extends FatSecretError {}
+
+/** Error returned by the FatSecret REST API, either as an HTTP failure or an in-body `error` object. */
+export class FatSecretApiError extends FatSecretError {
+  readonly code?: number;
+  readonly status?: number;
+
+  constructor(message: string, code?: number, status?: number, hint?: string) {
+    super(message, hint);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/** OAuth signature, consumer key, timestamp/nonce or access token was rejected. */
+export class AuthenticationError extends FatSecretApiError {}
+
+/** The method requires a FatSecret Premier subscription or a scope the key doesn't have. */
+export class PremierOnlyError extends FatSecretApiError {}
+
+/** A required request parameter was not supplied. */
+export class MissingParameterError extends FatSecretApiError {}
+
+/** A request parameter was supplied but rejected (wrong type, unknown ID, out of range). */
+export class InvalidParameterError extends FatSecretApiError {}
+
+/** FatSecret is throttling requests (HTTP 429 or an in-body rate limit error), even after retries. */
+export class RateLimitError extends FatSecretApiError {}
+
+/** A FatSecret response did not match the tool's output schema. */
+export class UnexpectedResponseError extends FatSecretError {}
+
+// ── Error code mapping ──
+
+// See https://platform.fatsecret.com/docs/guides/error-codes
+const INVALID_CREDENTIAL_CODES = new Set([2, 3, 4, 5, 8]);
+// Invalid timestamp or a reused nonce: the signature is fine but the clock is off
+const CLOCK_SKEW_CODES = new Set([6, 7]);
+const EXPIRED_TOKEN_CODES = new Set([9, 13]);
+const PREMIER_ONLY_CODES = new Set([12, 14]);
+const MISSING_PARAMETER_CODE = 101;
+const RATE_LIMIT_MESSAGE = /rate limit|too many/i;
+const RATE_LIMIT_HINT = 'FatSecret is rate limiting requests. Wait a minute and try again, or lower FATSECRET_MAX_RPS.';
+
+export function apiErrorFromCode(code: number, message: string, status?: number): FatSecretApiError {
+  if (status === 429 || RATE_LIMIT_MESSAGE.test(message)) {
+    return new RateLimitError(message, code, status, RATE_LIMIT_HINT);
+  }
+  if (INVALID_CREDENTIAL_CODES.has(code)) {
+    return new AuthenticationError(
+      message,
+      code,
+      status,
+      'The API credentials were rejected. Verify the Client ID and Consumer Secret on the API Keys page and re-run setup_credentials.',
+    );
+  }
+  if (CLOCK_SKEW_CODES.has(code)) {
+    return new AuthenticationError(
+      message,
+      code,
+      status,
+      'The request timestamp or nonce was rejected. Check that the system clock is correct and synced, then try again.',
+    );
+  }
+  if (EXPIRED_TOKEN_CODES.has(code)) {
+    return new AuthenticationError(
+      message,
+      code,
+      status,
+      'The authorization is invalid or expired. Re-run start_auth and complete_auth to re-authorize profile access.',
+    );
+  }
+  if (PREMIER_ONLY_CODES.has(code)) {
+    return new PremierOnlyError(
+      message,
+      code,
+      status,
+      'This method is not available for the configured API key. It requires a FatSecret Premier subscription or an additional scope.',
+    );
+  }
+  if (code === MISSING_PARAMETER_CODE) {
+    return new MissingParameterError(message, code, status, 'Call the tool again with the missing parameter.');
+  }
+  if (code > MISSING_PARAMETER_CODE && code < 200) {
+    return new InvalidParameterError(message, code, status, 'Check the parameter values (IDs, dates, units) and try again.');
+  }
+  return new FatSecretApiError(message, code, status);
+}
+
+function readErrorBody(body: unknown): { code: number; message: string } | undefined {
+  if (!body || typeof body !== 'object' || !('error' in body)) return undefined;
+  const error = (body as { error: unknown }).error;
+  if (!error || typeof error !== 'object') return undefined;
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  return { code: Number(code), message: String(message ?? 'Unknown FatSecret API error') };
+}
+
+// ── Response pipeline ──
+
+/**
+ * Returns the response data of an openapi-fetch call, throwing a typed error for HTTP
+ * failures and for FatSecret's `{"error": {"code", "message"}}` payloads (which arrive with status 200).
+ */
+export function unwrap<T>(result: { data?: T; error?: unknown; response: Response }): T {
+  const { data, error, response } = result;
+
+  if (error !== undefined || !response.ok) {
+    const body = readErrorBody(error);
+    if (body) throw apiErrorFromCode(body.code, body.message, response.status);
+    const detail = typeof error === 'string' && error ? `: ${error}` : '';
+    const ErrorClass = response.status === 429 ? RateLimitError : FatSecretApiError;
+    throw new ErrorClass(
+      `FatSecret API request failed with HTTP ${[response.status, response.statusText].filter(Boolean).join(' ')}${detail}`,
+      undefined,
+      response.status,
+      response.status === 429
+        ? RATE_LIMIT_HINT
+        : response.status >= 500
+          ? 'FatSecret is having trouble. Try again in a moment.'
+          : undefined,
+    );
+  }
+
+  const body = readErrorBody(data);
+  if (body) throw apiErrorFromCode(body.code, body.message, response.status);
+
+  return data as T;
+}
+
+/** Converts any thrown value into an MCP tool result with `isError: true`. */
+export function errorResult(err: unknown): CallToolResult {
+  const payload =
+    err instanceof FatSecretError
+      ? {
+          error: err.name,
+          message: err.message,
+          ...(err instanceof FatSecretApiError && err.code !== undefined ? { code: err.code } : {}),
+          ...(err.hint ? { hint: err.hint } : {}),
+        }
+      : { error: 'Error', message: err instanceof Error ? err.message : String(err) };
+
+  return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }], isError: true };
+}
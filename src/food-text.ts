@@ -0,0 +1,133 @@
+import { toMeal, type Meal } from './nutrition.js';
+import { UNIT_WORDS, normalizeUnit } from './servings.js';
+
+export interface ParsedFoodItem {
+  /** The fragment of the input this item came from. */
+  text: string;
+  quantity: number;
+  /** Canonical unit (`g`, `cup`, `slice`, ...) or undefined for a plain count ("2 eggs"). */
+  unit?: string;
+  /** Food name to search for. */
+  food: string;
+  meal?: Meal;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  half: 0.5,
+  quarter: 0.25,
+  dozen: 12,
+  couple: 2,
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 };
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const NUMBER = `\\d*[${Object.keys(UNICODE_FRACTIONS).join('')}]|\\d+/\\d+|\\d+(?:\\.\\d+)?(?:\\s+\\d+/\\d+)?`;
+const NUMBER_WORD = `(?:a\\s+)?(?:${Object.keys(NUMBER_WORDS).join('|')})\\b(?:\\s+of\\b)?`;
+const QUANTITY = new RegExp(`^(${NUMBER}|${NUMBER_WORD})(?:\\s*x)?\\s*`, 'i');
+const UNIT = new RegExp(`^(${UNIT_WORDS.map(escape).join('|')})(?:\\.|\\b)(?:\\s+of\\b)?\\s*`, 'i');
+const MEAL_WORD = '(breakfast|brunch|lunch|dinner|supper|snacks?|dessert)';
+// "... for breakfast" closes a group of items; "for lunch, ..." or "dinner: ..." opens one
+const TRAILING_MEAL = new RegExp(`\\s+(?:for|at|during|with)\\s+(?:my\\s+)?${MEAL_WORD}\\s*[.!]?$`, 'i');
+const LEADING_MEAL = new RegExp(`^(?:(?:for|at|during)\\s+(?:my\\s+)?${MEAL_WORD}\\b\\s*:?|${MEAL_WORD}\\s*:)\\s*`, 'i');
+const FILLER = /^(?:(?:and|then|also|i|i've|i\s+have)\s+)*(?:(?:had|ate|eaten|drank|drunk)\s+)?(?:some\s+)?/i;
+
+// Items are split on commas/semicolons/new lines, and on "and"/"plus"/"&" only when a quantity
+// follows, so "mac and cheese" stays one food but "eggs and a slice of toast" becomes two.
+const SPLIT = new RegExp(`\\s*[,;\\n]+\\s*|\\s+(?:and|plus|&|\\+)\\s+(?=${NUMBER}|${NUMBER_WORD})`, 'i');
+
+function parseNumber(token: string): number {
+  const word = token.toLowerCase().replace(/^a\s+/, '').replace(/\s+of$/, '');
+  if (word in NUMBER_WORDS) return NUMBER_WORDS[word];
+  return token
+    .trim()
+    .split(/\s+/)
+    .reduce((sum, part) => {
+      const unicode = part.match(/^(\d*)([½¼¾⅓⅔])$/);
+      if (unicode) return sum + Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+      const [num, den] = part.split('/');
+      return sum + (den ? Number(num) / Number(den) : Number(num));
+    }, 0);
+}
+
+function mealOf(word: string): Meal {
+  const w = word.toLowerCase();
+  if (w === 'brunch') return 'breakfast';
+  if (w === 'supper') return 'dinner';
+  return toMeal(w);
+}
+
+function parseItem(fragment: string): Omit<ParsedFoodItem, 'meal'> | undefined {
+  let rest = fragment.replace(FILLER, '').trim();
+  let quantity = 1;
+  let unit: string | undefined;
+
+  const q = rest.match(QUANTITY);
+  if (q) {
+    quantity = parseNumber(q[1]);
+    rest = rest.slice(q[0].length);
+    // "half a cup", "a couple of eggs"
+    rest = rest.replace(/^an?\s+/i, '');
+  }
+  const u = rest.match(UNIT);
+  if (u) {
+    unit = normalizeUnit(u[1]);
+    rest = rest.slice(u[0].length);
+  }
+
+  const food = rest.replace(/[.!?]+$/, '').trim();
+  if (!food || !Number.isFinite(quantity) || quantity <= 0) return undefined;
+  return { text: fragment.trim(), quantity, unit, food };
+}
+
+/**
+ * Parses free text like "two eggs and a slice of whole-wheat toast for breakfast" into items.
+ * A trailing meal phrase ("... for lunch") applies to the items before it back to the previous
+ * meal phrase; a leading one ("dinner: ...") applies to the items after it.
+ */
+export function parseFoodText(text: string): ParsedFoodItem[] {
+  const items: ParsedFoodItem[] = [];
+  let pending: ParsedFoodItem[] = [];
+  let current: Meal | undefined;
+
+  for (const raw of text.split(SPLIT)) {
+    let fragment = raw.trim();
+    if (!fragment) continue;
+
+    const leading = fragment.match(LEADING_MEAL);
+    if (leading) {
+      current = mealOf(leading[1] ?? leading[2]);
+      pending = [];
+      fragment = fragment.slice(leading[0].length);
+    }
+    const trailing = fragment.match(TRAILING_MEAL);
+    if (trailing) fragment = fragment.slice(0, trailing.index);
+
+    const parsed = fragment ? parseItem(fragment) : undefined;
+    if (parsed) {
+      const item: ParsedFoodItem = { ...parsed, meal: current };
+      items.push(item);
+      if (!current) pending.push(item);
+    }
+    if (trailing) {
+      const meal = mealOf(trailing[1]);
+      for (const item of [...pending, ...(parsed ? [items[items.length - 1]] : [])]) item.meal = meal;
+      pending = [];
+    }
+  }
+  return items;
+}
@@ -0,0 +1,128 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { InvalidParameterError } from './errors.js';
+import { KCAL_PER_GRAM, MEALS, round, type Meal, type NutrientTotals } from './nutrition.js';
+import type { NutritionGoals } from './schemas.js';
+
+/** Nutrition goals per account profile, as stored in `goals.json` next to `config.json`. */
+export type GoalsFile = Record<string, NutritionGoals>;
+
+export function loadGoalsFile(path: string): GoalsFile {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as GoalsFile;
+  } catch {
+    return {};
+  }
+}
+
+export function saveGoalsFile(path: string, goals: GoalsFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(goals, null, 2));
+}
+
+const MACROS = ['protein', 'carbohydrate', 'fat'] as const;
+type Macro = (typeof MACROS)[number];
+
+/**
+ * Applies `set_goals` updates: cleared keys are removed first, and setting a macro in grams
+ * drops its percentage form (and vice versa) so each macro has a single target.
+ */
+export function mergeGoals(
+  current: NutritionGoals,
+  updates: NutritionGoals,
+  clear: (keyof NutritionGoals)[] = [],
+): NutritionGoals {
+  const goals: NutritionGoals = { ...current };
+  for (const key of clear) delete goals[key];
+
+  for (const macro of MACROS) {
+    if (updates[`${macro}_g`] !== undefined) delete goals[`${macro}_pct`];
+    if (updates[`${macro}_pct`] !== undefined) delete goals[`${macro}_g`];
+  }
+  const merged: NutritionGoals = { ...goals, ...updates };
+  if (updates.meal_calories) merged.meal_calories = { ...goals.meal_calories, ...updates.meal_calories };
+
+  const pctTotal = MACROS.reduce((sum, m) => sum + (merged[`${m}_pct`] ?? 0), 0);
+  if (pctTotal > 0 && !merged.calories) {
+    throw new InvalidParameterError(
+      'Macro percentages need a calorie budget',
+      undefined,
+      undefined,
+      'Set calories as well, or give the macro targets in grams.',
+    );
+  }
+  if (pctTotal > 100) {
+    throw new InvalidParameterError(
+      `Macro percentages add up to ${pctTotal}%`,
+      undefined,
+      undefined,
+      'protein_pct, carbohydrate_pct and fat_pct together must not exceed 100.',
+    );
+  }
+  return merged;
+}
+
+/** Daily macro targets in grams, from `*_g` or from `*_pct` of the calorie budget. */
+export function macroTargets(goals: NutritionGoals): Partial<Record<Macro, number>> {
+  const targets: Partial<Record<Macro, number>> = {};
+  for (const macro of MACROS) {
+    const grams = goals[`${macro}_g`];
+    const pct = goals[`${macro}_pct`];
+    if (grams !== undefined) targets[macro] = grams;
+    else if (pct !== undefined && goals.calories) targets[macro] = round((goals.calories * pct) / 100 / KCAL_PER_GRAM[macro], 1);
+  }
+  return targets;
+}
+
+// ── Goal checks ──
+
+// Macro targets count as hit within ±5%
+const ON_TARGET_TOLERANCE = 0.05;
+
+type GoalKind = 'limit' | 'minimum' | 'target';
+
+function check(goal: string, kind: GoalKind, target: number, actual: number) {
+  const ratio = actual / target;
+  let status: string;
+  if (kind === 'limit') status = actual > target ? 'over' : 'within';
+  else if (kind === 'minimum') status = actual >= target ? 'met' : 'below';
+  else status = Math.abs(ratio - 1) <= ON_TARGET_TOLERANCE ? 'on_target' : ratio < 1 ? 'under' : 'over';
+
+  return {
+    goal,
+    kind,
+    target: round(target),
+    actual: round(actual),
+    remaining: round(target - actual),
+    percent_of_goal: round(ratio * 100, 1),
+    status,
+  };
+}
+
+/**
+ * Compares diary totals against daily goals scaled to `days`. `remaining` is the budget left
+ * (negative once a limit is exceeded).
+ */
+export function checkGoals(
+  goals: NutritionGoals,
+  summary: { totals: NutrientTotals; meals: { meal: Meal; totals: NutrientTotals }[] },
+  days: number,
+) {
+  const { totals } = summary;
+  const results = [];
+  if (goals.calories) results.push(check('calories', 'limit', goals.calories * days, totals.calories));
+  for (const [macro, grams] of Object.entries(macroTargets(goals)) as [Macro, number][]) {
+    results.push(check(`${macro}_g`, 'target', grams * days, totals[macro]));
+  }
+  if (goals.fiber_g) results.push(check('fiber_g', 'minimum', goals.fiber_g * days, totals.fiber));
+  if (goals.sodium_mg) results.push(check('sodium_mg', 'limit', goals.sodium_mg * days, totals.sodium));
+  if (goals.sugar_g) results.push(check('sugar_g', 'limit', goals.sugar_g * days, totals.sugar));
+
+  const meals = MEALS.flatMap((meal) => {
+    const budget = goals.meal_calories?.[meal];
+    const actual = summary.meals.find((m) => m.meal === meal)?.totals.calories ?? 0;
+    return budget ? [{ meal, ...check(`${meal}_calories`, 'limit', budget * days, actual) }] : [];
+  });
+
+  return { results, meals };
+}
@@ -0,0 +1,193 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  version: string;
+  /** Extra `Host` header values to accept (e.g. behind a reverse proxy), as `host:port` or `host`. */
+  allowedHosts?: string[];
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/healthz';
+const MAX_BODY_BYTES = 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+class PayloadTooLargeError extends Error {}
+
+/** Parses the request body; bodies over MAX_BODY_BYTES are drained and rejected. */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => {
+      req.removeAllListeners('data');
+      req.resume();
+      reject(new PayloadTooLargeError());
+    };
+    if (Number(req.headers['content-length'] ?? 0) > MAX_BODY_BYTES) {
+      tooLarge();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) tooLarge();
+      else chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * `Host` header values the MCP endpoint answers to: the bound host and port (with the other
+ * loopback names when bound to loopback) plus any configured extras. Anything else is refused,
+ * so a web page cannot reach the server through DNS rebinding.
+ */
+function allowedHostHeaders(host: string, port: number, extra: string[] = []): string[] {
+  const name = host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+  const names = LOOPBACK_HOSTS.includes(name) ? LOOPBACK_HOSTS : [name];
+  return [...names.map((n) => `${n}:${port}`), ...extra.flatMap((h) => (h.includes(':') ? [h] : [h, `${h}:${port}`]))];
+}
+
+/**
+ * Serves MCP over Streamable HTTP on `/mcp` with one McpServer per session, plus a `/healthz` probe.
+ * Resolves once listening; SIGINT/SIGTERM close every session before the process exits.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions,
+): Promise<void> {
+  const sessions = new Map<string, Session>();
+  // Filled in once listening, when the actual port is known
+  let allowedHosts: string[] = [];
+
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        if (err instanceof PayloadTooLargeError) {
+          res.setHeader('Connection', 'close');
+          sendJsonRpcError(res, 413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        } else {
+          sendJson(res, 400, { jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null });
+        }
+        return;
+      }
+
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        const server = createMcpServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          enableDnsRebindingProtection: true,
+          allowedHosts,
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport, server });
+            console.error(`HTTP session ${id} opened (${sessions.size} active)`);
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId && sessions.delete(transport.sessionId)) {
+            console.error(`HTTP session ${transport.sessionId} closed (${sessions.size} active)`);
+          }
+        };
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+    } else if (req.method === 'GET' || req.method === 'DELETE') {
+      if (session) {
+        await session.transport.handleRequest(req, res);
+        return;
+      }
+    } else {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+      return;
+    }
+
+    if (sessionId !== undefined) {
+      sendJsonRpcError(res, 404, 'Session not found');
+    } else {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', version: options.version, sessions: sessions.size });
+      return;
+    }
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((err) => {
+      console.error('Error handling MCP request:', err);
+      if (!res.headersSent) sendJsonRpcError(res, 500, 'Internal server error');
+    });
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string): Promise<void> => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down HTTP server`);
+
+    httpServer.close();
+    await Promise.allSettled([...sessions.values()].map(({ server }) => server.close()));
+    httpServer.closeAllConnections();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  // The actual port differs from options.port when that is 0
+  const port = await new Promise<number>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      const address = httpServer.address();
+      resolve(typeof address === 'object' && address ? address.port : options.port);
+    });
+  });
+  allowedHosts = allowedHostHeaders(options.host, port, options.allowedHosts);
+  console.error(`FatSecret MCP server listening on http://${options.host}:${port}${MCP_PATH}`);
+}
@@ -1,42 +1,250 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, type ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AnySchema, SchemaOutput } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import type { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 import { createRequire } from 'node:module';
+import { parseArgs } from 'node:util';
 import createClient, { type Middleware } from 'openapi-fetch';
 import type { paths as PublicPaths } from './generated/public-api.js';
 import type { paths as ProfilePaths } from './generated/profile-api.js';
 import { buildOAuth1Params, requestToken, accessToken, type OAuth1Credentials } from './oauth1.js';
 import * as schemas from './schemas.js';
+import { startHttpServer } from './http.js';
+import { ResponseCache } from './cache.js';
+import { AuditLog, redactArguments, resultIds, type AuditEntry } from './audit.js';
+import { ConfirmationStore } from './confirm.js';
+import { UndoJournal, type SavedMealItemState, type UndoAction, type UndoRecord } from './undo.js';
+import { ToolFilter, parseToolList, type ToolGroup } from './tool-filter.js';
+import { TokenBucket, retryMiddleware } from './retry.js';
+import {
+  dateToDays,
+  datesInRange,
+  daysToDate,
+  getTimeZone,
+  monthsInRange,
+  optionalDateToDays,
+  setTimeZone,
+  today,
+  weekRange,
+} from './dates.js';
+import { normalizeResponse, parseResponse } from './normalize.js';
+import { checkGoals, loadGoalsFile, macroTargets, mergeGoals, saveGoalsFile } from './goals.js';
+import {
+  batchFactor,
+  batchNutrition,
+  loadRecipeFoodsFile,
+  recipeFoodKey,
+  saveRecipeFoodsFile,
+  scaleRecipe,
+} from './recipes.js';
+import { buildShoppingList, type ShoppingFood, type ShoppingIngredient } from './shopping-list.js';
+import { mealBudgets, planMeals, recipeSearchFilters, summarizePlanDay, type PlanRecipe, type PlanTargets } from './meal-plan.js';
+import { parseFoodText, type ParsedFoodItem } from './food-text.js';
+import { MEALS, NUTRIENTS, nutritionReport, round, sumNutrients, summarizeByMeal, toMeal, type Meal } from './nutrition.js';
+import { CANONICAL_UNITS, matchServing, normalizeUnit, servingNutrition, type ServingConversion } from './servings.js';
+import { startOAuthCallbackServer, type OAuthCallbackServer } from './oauth-callback.js';
+import {
+  AuthenticationError,
+  CredentialsNotConfiguredError,
+  FatSecretError,
+  InvalidParameterError,
+  MissingParameterError,
+  PremierOnlyError,
+  ProfileNotAuthenticatedError,
+  UnexpectedResponseError,
+  errorResult,
+  unwrap,
+} from './errors.js';
 
 const require = createRequire(import.meta.url);
 const { version } = require('../package.json');
 
 const BASE_URL = 'https://platform.fatsecret.com/rest';
+const OAUTH_CALLBACK_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_REPORT_DAYS = 366;
+const FOOD_TEXT_CANDIDATES = 5;
+const BULK_CONCURRENCY = 4;
+const DEFAULT_PLAN_DAYS = 7;
+const DEFAULT_PLAN_TOLERANCE_PCT = 10;
+const PLAN_SEARCH_RESULTS = 50;
+const DEFAULT_CACHE_MAX_MB = 50;
+const DEFAULT_MAX_RPS = 5;
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+const CACHED_TOOL_PATHS: Record<schemas.CachedTool, string> = {
+  get_food: '/food/v5',
+  get_recipe: '/recipe/v2',
+  get_food_categories: '/food-categories/v2',
+  get_brands: '/brands/v2',
+  get_recipe_types: '/recipe-types/v2',
+};
 
 // ── Helpers ──
 
-function dateToDays(dateStr: string): number {
-  return Math.floor(new Date(dateStr + 'T00:00:00Z').getTime() / (1000 * 60 * 60 * 24));
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-function optionalDateToDays(dateStr?: string): number | undefined {
-  return dateStr ? dateToDays(dateStr) : undefined;
+/** Tool result with the data as pretty JSON text, plus `structuredContent` when it is an object. */
+function text(data: unknown): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
+    ...(isPlainObject(data) ? { structuredContent: data } : {}),
+  };
 }
 
-function text(data: unknown) {
-  return { content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }] };
+/** Date inputs of a tool (`date`, `from_date`, ...), echoed back resolved in its results. */
+function dateInputKeys(schema: AnySchema): string[] {
+  const shape = (schema as { shape?: Record<string, unknown> }).shape ?? {};
+  return Object.keys(shape).filter((key) => key === 'date' || key.endsWith('_date'));
+}
+
+/** The fields of a diary entry that a confirm mode preview shows. */
+function describeEntry(entry: schemas.FoodEntry) {
+  const { food_entry_id, food_entry_name, date, meal, number_of_units, calories } = entry;
+  return { food_entry_id, food_entry_name, date, meal, number_of_units, calories };
+}
+
+/** Maps items with at most `limit` calls in flight; results keep the input order. */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** Builds the undo actions of a write from its result. */
+type UndoBuilder = (result: Record<string, unknown>) => UndoAction[] | Promise<UndoAction[]>;
+
+/** Marks a write's result as one `undo_last_change` cannot revert, with the reason. */
+function withoutUndo(result: CallToolResult, reason: string): CallToolResult {
+  return isPlainObject(result.structuredContent)
+    ? text({ ...result.structuredContent, undo_available: false, undo_error: reason })
+    : result;
+}
+
+/** What `undo_last_change` reports about a change it reverts. */
+function undoSummary({ timestamp, tool, profile, arguments: args, custom_food_ids }: UndoRecord) {
+  return { timestamp, tool, profile, arguments: args, ...(custom_food_ids ? { kept_custom_food_ids: custom_food_ids } : {}) };
+}
+
+/** Undo actions deleting the diary entries a write created (`food_entry_id`s in its result). */
+function deleteCreatedEntries(result: Record<string, unknown>): UndoAction[] {
+  return (resultIds(result)?.food_entry_id ?? []).map((id) => ({ type: 'delete_food_entry', food_entry_id: Number(id) }));
+}
+
+/** What a copy re-creates a diary entry from. */
+type CopiedEntry = Pick<schemas.FoodEntry, 'food_id' | 'serving_id' | 'number_of_units'> & { meal: Meal };
+
+/**
+ * Undo actions deleting the diary entries a copy created: those that appeared on the target date
+ * with the food, serving, units and meal of a copied entry (each copied entry matched once), so
+ * other writes to that date in the meantime are left alone.
+ */
+function deleteCopiedEntries(before: Set<number>, after: schemas.FoodEntry[], copied: CopiedEntry[]): UndoAction[] {
+  const unmatched = [...copied];
+  const actions: UndoAction[] = [];
+  for (const entry of after) {
+    if (before.has(entry.food_entry_id)) continue;
+    const i = unmatched.findIndex(
+      (source) =>
+        source.food_id === entry.food_id &&
+        source.serving_id === entry.serving_id &&
+        source.number_of_units === entry.number_of_units &&
+        source.meal === toMeal(entry.meal),
+    );
+    if (i === -1) continue;
+    unmatched.splice(i, 1);
+    actions.push({ type: 'delete_food_entry', food_entry_id: entry.food_entry_id });
+  }
+  return actions;
+}
+
+/** The undo action that re-creates a diary entry, or undefined if the API left out a field. */
+function recreateEntry(entry: schemas.FoodEntry): Extract<UndoAction, { type: 'create_food_entry' }> | undefined {
+  const { food_id, food_entry_name = '', serving_id, number_of_units, date } = entry;
+  if (food_id === undefined || serving_id === undefined || number_of_units === undefined || !date) return undefined;
+  return { type: 'create_food_entry', food_id, food_entry_name, serving_id, number_of_units, meal: toMeal(entry.meal), date };
+}
+
+/** The diary entries `log_recipe` makes: one per ingredient scaled to the servings eaten, or one for the recipe. */
+function recipeEntries(
+  recipe: schemas.Recipe,
+  servings: number,
+  mode: 'ingredients' | 'recipe',
+): { food_id?: number; food_entry_name: string; serving_id?: number; number_of_units?: number }[] {
+  if (mode === 'recipe') return [{ food_entry_name: recipe.recipe_name, number_of_units: servings }];
+  const scaled = scaleRecipe(recipe, batchFactor(recipe, { servings }));
+  return (scaled.ingredients?.ingredient ?? []).map((ingredient) => ({
+    food_id: ingredient.food_id,
+    food_entry_name: ingredient.food_name ?? ingredient.ingredient_description ?? `Food ${ingredient.food_id}`,
+    serving_id: ingredient.serving_id,
+    number_of_units: ingredient.number_of_units,
+  }));
+}
+
+/** What re-creating a saved meal item takes, or undefined if the API left out a field. */
+function savedMealItemState(item: schemas.SavedMealItem): SavedMealItemState | undefined {
+  const { food_id, saved_meal_item_name, serving_id, number_of_units } = item;
+  if (food_id === undefined || serving_id === undefined || number_of_units === undefined) return undefined;
+  return { food_id, saved_meal_item_name: saved_meal_item_name ?? '', serving_id, number_of_units };
+}
+
+/** On/off env var ("1", "true", "on"), or the default when unset. */
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value ? ['1', 'true', 'on'].includes(value.toLowerCase()) : fallback;
+}
+
+/** Non-negative number from an env var, or the default when unset or invalid. */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Adds the amount → serving conversion (if any) to a write result. */
+function withConversion(data: unknown, conversion?: ServingConversion): unknown {
+  return conversion && isPlainObject(data) ? { ...data, conversion } : data;
 }
 
 // ── Config ──
 
+const DEFAULT_PROFILE = 'default';
+
+interface ProfileTokens {
+  accessToken: string;
+  accessTokenSecret: string;
+}
+
 interface Config {
   clientId?: string;
   clientSecret?: string;
   consumerSecret?: string;
+  activeProfile?: string;
+  /** IANA zone (e.g. "Europe/Berlin") that "today" and relative dates resolve in. */
+  timezone?: string;
+  /** Confirm mode: write tools return a preview and only apply it with a confirmation token. */
+  confirmWrites?: boolean;
+  /** Only register read-only tools. */
+  readOnly?: boolean;
+  /** Tool or group names (see `TOOL_GROUPS`) to register or skip. */
+  tools?: { allow?: string[]; deny?: string[] };
+  profiles?: Record<string, ProfileTokens>;
+  // Single-account tokens written before profiles existed; migrated to the default profile on load
   accessToken?: string;
   accessTokenSecret?: string;
 }
@@ -44,7 +252,6 @@ interface Config {
 // ── Server ──
 
 class FatSecretMcpServer {
-  private server: McpServer;
   private clientId = '';
   private clientSecret = '';
 
@@ -52,17 +259,36 @@ class FatSecretMcpServer {
   private oauth2TokenExpiry = 0;
 
   private publicClient: ReturnType<typeof createClient<PublicPaths>>;
-  private profileClient: ReturnType<typeof createClient<ProfilePaths>>;
-
+  private cache: ResponseCache | null = null;
+  private rateLimiter: TokenBucket | null = null;
+  private confirmWrites = false;
+  private confirmations = new ConfirmationStore();
+  private auditLog: AuditLog;
+  private undoJournal: UndoJournal;
+  private toolFilter = new ToolFilter();
+  // Group of the tools being registered, set by createServer
+  private toolGroup: ToolGroup = 'public';
+  private profileClients = new Map<string, ReturnType<typeof createClient<ProfilePaths>>>();
+
+  // Consumer key/secret only; access tokens live in `profiles`
   private oauth1Credentials: OAuth1Credentials;
-  private pendingOAuth: { token: string; secret: string } | null = null;
+  private profiles: Record<string, ProfileTokens> = {};
+  private activeProfile = DEFAULT_PROFILE;
+  private pendingOAuth: { token: string; secret: string; profile: string } | null = null;
+  private oauthCallbackServer: OAuthCallbackServer | null = null;
 
   constructor() {
     this.oauth1Credentials = { consumerKey: '', consumerSecret: '' };
+    this.auditLog = new AuditLog(join(this.getConfigDir(), 'audit.jsonl'));
+    this.undoJournal = new UndoJournal(join(this.getConfigDir(), 'undo.json'));
 
     // Load config: persistent file first, env vars override
     this.loadConfig();
 
+    // One request budget for all clients; FATSECRET_MAX_RPS=0 turns throttling off
+    const maxRps = envNumber('FATSECRET_MAX_RPS', DEFAULT_MAX_RPS);
+    if (maxRps > 0) this.rateLimiter = new TokenBucket(maxRps, envNumber('FATSECRET_BURST', maxRps * 2));
+
     // Public API client with OAuth 2.0
     this.publicClient = createClient<PublicPaths>({ baseUrl: BASE_URL });
     const oauth2Middleware: Middleware = {
@@ -72,24 +298,49 @@ class FatSecretMcpServer {
         return request;
       },
     };
-    this.publicClient.use(oauth2Middleware);
+    // Cache first so hits skip throttling and don't need a token
+    if (process.env.FATSECRET_CACHE !== 'off') {
+      const maxMb = Number(process.env.FATSECRET_CACHE_MAX_MB) || DEFAULT_CACHE_MAX_MB;
+      this.cache = new ResponseCache({ dir: join(this.getConfigDir(), 'cache'), maxBytes: maxMb * 1024 * 1024 });
+      this.publicClient.use(this.cache.middleware());
+    }
+    this.publicClient.use(this.retryMiddleware(), oauth2Middleware);
+  }
 
-    // Profile API client with OAuth 1.0 (params in query string, not Authorization header)
-    this.profileClient = createClient<ProfilePaths>({ baseUrl: BASE_URL });
+  /** Profile API client with OAuth 1.0 for the given profile (default: the active one). */
+  private profileClientFor(profile?: string): ReturnType<typeof createClient<ProfilePaths>> {
+    const name = profile || this.activeProfile;
+    const existing = this.profileClients.get(name);
+    if (existing) return existing;
+
+    // OAuth 1.0 params go in the query string, not the Authorization header.
+    // Retries re-sign so each attempt gets a fresh nonce and timestamp.
+    const sign = (request: Request): Request => {
+      const tokens = this.ensureProfileAuth(name);
+      const url = new URL(request.url);
+      const existingParams: Record<string, string> = {};
+      url.searchParams.forEach((v, k) => {
+        if (!k.startsWith('oauth_')) existingParams[k] = v;
+      });
+      const credentials = { ...this.oauth1Credentials, ...tokens };
+      const allParams = buildOAuth1Params(request.method, `${url.origin}${url.pathname}`, credentials, existingParams);
+      url.search = new URLSearchParams(allParams).toString();
+      return new Request(url.toString(), request);
+    };
+    const client = createClient<ProfilePaths>({ baseUrl: BASE_URL });
     const oauth1Middleware: Middleware = {
-      onRequest: async ({ request }) => {
-        this.ensureProfileAuth();
-        const url = new URL(request.url);
-        const existingParams: Record<string, string> = {};
-        url.searchParams.forEach((v, k) => { existingParams[k] = v; });
-        const allParams = buildOAuth1Params(request.method, `${url.origin}${url.pathname}`, this.oauth1Credentials, existingParams);
-        url.search = new URLSearchParams(allParams).toString();
-        return new Request(url.toString(), request);
-      },
+      onRequest: async ({ request }) => sign(request),
     };
-    this.profileClient.use(oauth1Middleware);
+    client.use(this.retryMiddleware(sign), oauth1Middleware);
+    this.profileClients.set(name, client);
+    return client;
+  }
 
-    this.server = new McpServer(
+  // ── MCP Server ──
+
+  /** Builds an MCP server with the enabled tools registered. HTTP mode creates one per session. */
+  private createServer(): McpServer {
+    const server = new McpServer(
       { name: 'fatsecret-mcp', version },
       {
         instructions: [
@@ -105,22 +356,44 @@ class FatSecretMcpServer {
           '3. PROFILE API (requires user authorization): Food diary, saved meals, favorites, weight, exercises, profile.',
           '   These tools require OAuth 1.0 user authorization. Before using any profile tool,',
           '   call check_auth_status to see if the user is authenticated.',
-          '   If not, guide them through: start_auth → user visits URL and authorizes → complete_auth with verifier PIN.',
+          '   If not, guide them through: start_auth → user visits URL and authorizes. By default the browser redirect',
+          '   completes authorization automatically; in PIN mode (or if the redirect fails) finish with complete_auth and the verifier PIN.',
           '   All credentials and tokens persist across sessions in ~/.fatsecret-mcp/config.json.',
+          '',
+          '4. ACCOUNT PROFILES: Several FatSecret users can be authorized as named profiles',
+          '   (start_auth with a profile name). Profile tools use the active profile unless a `profile` argument is given;',
+          '   use list_profiles, switch_profile and remove_profile to manage them.',
         ].join('\n'),
       },
     );
 
-    this.registerPublicFoodTools();
-    this.registerPublicRecipeTools();
-    this.registerPublicReferenceTools();
-    this.registerFoodDiaryTools();
-    this.registerFavoriteTools();
-    this.registerSavedMealTools();
-    this.registerWeightTools();
-    this.registerExerciseTools();
-    this.registerProfileTools();
-    this.registerAuthTools();
+    const groups: [ToolGroup, (server: McpServer) => void][] = [
+      ['public', this.registerPublicFoodTools],
+      ['public', this.registerPublicRecipeTools],
+      ['public', this.registerPublicReferenceTools],
+      ['diary', this.registerFoodDiaryTools],
+      ['favorites', this.registerFavoriteTools],
+      ['saved_meals', this.registerSavedMealTools],
+      ['weight', this.registerWeightTools],
+      ['exercise', this.registerExerciseTools],
+      ['profile', this.registerProfileTools],
+      ['diary', this.registerReportTools],
+      ['diary', this.registerGoalTools],
+      ['public', this.registerCacheTools],
+      ['diary', this.registerUndoTools],
+      ['diary', this.registerAuditTools],
+      ['auth', this.registerAuthTools],
+      ['auth', this.registerAccountProfileTools],
+    ];
+    for (const [group, register] of groups) {
+      this.toolGroup = group;
+      register.call(this, server);
+    }
+
+    const unknown = this.toolFilter.unknownEntries();
+    if (unknown.length) console.error(`Tool filter: no tool or group named ${unknown.join(', ')}`);
+
+    return server;
   }
 
   // ── Config Management ──
@@ -133,6 +406,14 @@ class FatSecretMcpServer {
     return join(this.getConfigDir(), 'config.json');
   }
 
+  private getGoalsPath(): string {
+    return join(this.getConfigDir(), 'goals.json');
+  }
+
+  private getRecipeFoodsPath(): string {
+    return join(this.getConfigDir(), 'recipe-foods.json');
+  }
+
   private loadConfig(): void {
     // 1. Load from persistent config file
     let fileConfig: Config = {};
@@ -148,12 +429,30 @@ class FatSecretMcpServer {
     this.clientSecret = process.env.FATSECRET_CLIENT_SECRET || fileConfig.clientSecret || '';
     const consumerSecret = process.env.FATSECRET_CONSUMER_SECRET || fileConfig.consumerSecret || '';
 
-    this.oauth1Credentials = {
-      consumerKey: this.clientId,
-      consumerSecret,
-      accessToken: fileConfig.accessToken,
-      accessTokenSecret: fileConfig.accessTokenSecret,
-    };
+    this.oauth1Credentials = { consumerKey: this.clientId, consumerSecret };
+
+    // Profiles: migrate legacy single-account tokens into the default profile
+    this.profiles = { ...fileConfig.profiles };
+    if (fileConfig.accessToken && fileConfig.accessTokenSecret && !this.profiles[DEFAULT_PROFILE]) {
+      this.profiles[DEFAULT_PROFILE] = {
+        accessToken: fileConfig.accessToken,
+        accessTokenSecret: fileConfig.accessTokenSecret,
+      };
+    }
+    this.activeProfile = process.env.FATSECRET_PROFILE || fileConfig.activeProfile || DEFAULT_PROFILE;
+
+    this.confirmWrites = envFlag('FATSECRET_CONFIRM_WRITES', !!fileConfig.confirmWrites);
+    this.toolFilter = new ToolFilter({
+      readOnly: envFlag('FATSECRET_READ_ONLY', !!fileConfig.readOnly),
+      allow: parseToolList(process.env.FATSECRET_TOOLS_ALLOW) ?? fileConfig.tools?.allow,
+      deny: parseToolList(process.env.FATSECRET_TOOLS_DENY) ?? fileConfig.tools?.deny,
+    });
+
+    try {
+      setTimeZone(process.env.FATSECRET_TIMEZONE || fileConfig.timezone);
+    } catch (err) {
+      console.error(`${(err as Error).message}; using the system timezone`);
+    }
 
     // 3. Log credential sources
     const src = (envKey: string, fileVal?: string) => {
@@ -162,7 +461,11 @@ class FatSecretMcpServer {
       return 'not set';
     };
     console.error(`Credentials: clientId=${src('FATSECRET_CLIENT_ID', fileConfig.clientId)}, clientSecret=${src('FATSECRET_CLIENT_SECRET', fileConfig.clientSecret)}, consumerSecret=${src('FATSECRET_CONSUMER_SECRET', fileConfig.consumerSecret)}`);
-    console.error(`OAuth 1.0 tokens: ${fileConfig.accessToken ? 'loaded from config file' : 'not set'}`);
+    const profileNames = Object.keys(this.profiles);
+    console.error(`OAuth 1.0 profiles: ${profileNames.length ? profileNames.join(', ') : 'none'} (active: ${this.activeProfile})`);
+    console.error(`Timezone: ${getTimeZone()} (today is ${today()})`);
+    if (this.confirmWrites) console.error('Confirm mode: write tools need confirmation');
+    if (this.toolFilter.active) console.error(`Tool filter: ${this.toolFilter.describe()}`);
   }
 
   private saveConfig(updates: Partial<Config>): void {
@@ -186,15 +489,34 @@ class FatSecretMcpServer {
     console.error(`Saved config to ${this.getConfigPath()}`);
   }
 
+  /** Persists the profile store, dropping pre-profiles top-level tokens. */
+  private saveProfiles(): void {
+    this.saveConfig({
+      activeProfile: this.activeProfile,
+      profiles: this.profiles,
+      accessToken: undefined,
+      accessTokenSecret: undefined,
+    });
+  }
+
+  private profileStatus() {
+    const names = new Set([...Object.keys(this.profiles), this.activeProfile]);
+    return [...names].sort().map((name) => ({
+      name,
+      active: name === this.activeProfile,
+      authenticated: !!this.profiles[name],
+    }));
+  }
+
   private hasApiCredentials(): boolean {
     return !!(this.clientId && this.clientSecret && this.oauth1Credentials.consumerSecret);
   }
 
   private ensureApiCredentials(): void {
     if (!this.hasApiCredentials()) {
-      throw new Error(
-        'API credentials not configured. Use setup_credentials tool first. ' +
-        'Get your credentials at https://platform.fatsecret.com/ → My Account → API Keys.',
+      throw new CredentialsNotConfiguredError(
+        'API credentials not configured.',
+        'Use setup_credentials tool first. Get your credentials at https://platform.fatsecret.com/ → My Account → API Keys.',
       );
     }
   }
@@ -221,7 +543,12 @@ class FatSecretMcpServer {
 
     if (!response.ok) {
       const body = await response.text();
-      throw new Error(`OAuth2 token request failed: ${response.status} ${body}`);
+      throw new AuthenticationError(
+        `OAuth2 token request failed: ${response.status} ${body}`,
+        undefined,
+        response.status,
+        'Verify the Client ID and Client Secret on the API Keys page and re-run setup_credentials.',
+      );
     }
 
     const data = (await response.json()) as { access_token: string; expires_in: number };
@@ -230,64 +557,268 @@ class FatSecretMcpServer {
     return this.oauth2Token;
   }
 
-  private ensureProfileAuth(): void {
+  /** Throttling and GET retries, configured by FATSECRET_MAX_RPS / FATSECRET_RETRIES. */
+  private retryMiddleware(prepareRetry?: (request: Request) => Request): Middleware {
+    return retryMiddleware({
+      retries: envNumber('FATSECRET_RETRIES', DEFAULT_RETRIES),
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      bucket: this.rateLimiter ?? undefined,
+      prepareRetry,
+    });
+  }
+
+  private ensureProfileAuth(profile: string): ProfileTokens {
     this.ensureApiCredentials();
-    if (!this.oauth1Credentials.accessToken || !this.oauth1Credentials.accessTokenSecret) {
-      throw new Error(
-        'Not authenticated for profile access. Use check_auth_status to check, then start_auth and complete_auth to authorize.',
+    const tokens = this.profiles[profile];
+    if (!tokens) {
+      throw new ProfileNotAuthenticatedError(
+        `Profile "${profile}" is not authenticated for profile access.`,
+        'Use check_auth_status to check, then start_auth and complete_auth to authorize, or list_profiles to pick another profile.',
       );
     }
+    return tokens;
+  }
+
+  // ── Tool Registration ──
+
+  /**
+   * Registers a tool whose thrown errors are returned as `isError` results with a remediation hint.
+   * Structured content is normalized (see `normalizeResponse`) and, with an `outputSchema`, validated.
+   * Date inputs are echoed back as resolved YYYY-MM-DD dates, so "yesterday" shows which day it was;
+   * a left-out date is echoed as today unless `dates` says the call used none.
+   * In confirm mode, write tools (`readOnlyHint: false`) go through `confirmWrite` first and don't
+   * advertise their `outputSchema`, since a dry-run preview has a different shape.
+   * Tools excluded by the read-only mode or allow/deny lists are not registered at all.
+   */
+  private registerTool<InputArgs extends AnySchema>(
+    server: McpServer,
+    name: string,
+    config: {
+      description: string;
+      inputSchema: InputArgs;
+      outputSchema?: z.AnyZodObject;
+      annotations?: ToolAnnotations;
+      /** Dates a call used, echoed in its result (default: each date input, today when left out). */
+      dates?: (args: SchemaOutput<InputArgs>) => Record<string, string | undefined>;
+      /** Whether a call changes anything (default: every call of a tool with `readOnlyHint: false`). */
+      writes?: (args: SchemaOutput<InputArgs>) => boolean;
+      /** What a call would change, shown by confirm mode (default: the arguments). */
+      preview?: (args: SchemaOutput<InputArgs>) => Promise<Record<string, unknown>>;
+      /**
+       * Captures what reverting a call needs before it runs (e.g. the entry an edit overwrites)
+       * and returns a function that builds the undo actions from the call's result.
+       */
+      undo?: (args: SchemaOutput<InputArgs>) => Promise<UndoBuilder>;
+    },
+    cb: ToolCallback<InputArgs>,
+  ): void {
+    if (!this.toolFilter.includes(name, this.toolGroup, config.annotations)) return;
+    const { outputSchema, dates, writes, preview, undo, ...toolConfig } = config;
+    const dateKeys = dateInputKeys(config.inputSchema);
+    const hasProfile = 'profile' in ((config.inputSchema as { shape?: object }).shape ?? {});
+    const mutating = config.annotations?.readOnlyHint === false;
+    const confirmable = this.confirmWrites && mutating;
+    const inputSchema: AnySchema = confirmable
+      ? schemas.withConfirmationToken(config.inputSchema as z.AnyZodObject)
+      : config.inputSchema;
+    const advertisedOutputSchema = confirmable ? undefined : outputSchema;
+    server.registerTool(name, { ...toolConfig, outputSchema: advertisedOutputSchema, inputSchema }, (async (...params: unknown[]) => {
+      let args = (params[0] ?? {}) as Record<string, unknown>;
+      let write = false;
+      const audit = (outcome: Pick<AuditEntry, 'outcome' | 'error' | 'result_ids'>) =>
+        this.auditLog.append({
+          timestamp: new Date().toISOString(),
+          date: today(),
+          tool: name,
+          profile: hasProfile ? (args.profile as string | undefined) || this.activeProfile : undefined,
+          arguments: redactArguments(args),
+          ...outcome,
+        });
+      try {
+        let token: string | undefined;
+        if (confirmable) {
+          const { confirmation_token, ...rest } = args;
+          token = confirmation_token as string | undefined;
+          args = rest;
+          params = [args, ...params.slice(1)];
+        }
+        const changes = mutating && (writes?.(args as SchemaOutput<InputArgs>) ?? true);
+        if (confirmable && changes) {
+          const pending = await this.confirmWrite(server, name, args as SchemaOutput<InputArgs>, token, preview);
+          if (pending) return pending;
+        }
+        write = changes;
+        const revert = write && undo ? await this.captureUndo(name, undo, args as SchemaOutput<InputArgs>) : undefined;
+        const result: CallToolResult = await Reflect.apply(cb, undefined, params);
+        if (result.isError) return result;
+
+        const used =
+          dates?.(args as SchemaOutput<InputArgs>) ?? Object.fromEntries(dateKeys.map((key) => [key, args[key] ?? today()]));
+        const echoed = Object.entries(used).filter(([, date]) => date !== undefined);
+        const withDates = (data: unknown) => (echoed.length && isPlainObject(data) ? { ...Object.fromEntries(echoed), ...data } : data);
+        let output: CallToolResult;
+        if (!outputSchema) {
+          output = result.structuredContent ? text(withDates(normalizeResponse(result.structuredContent))) : result;
+        } else {
+          output = text(parseResponse(outputSchema, withDates(result.structuredContent), name));
+        }
+        if (write) await audit({ outcome: 'success', result_ids: resultIds(output.structuredContent) });
+        let undoError = revert?.error;
+        if (revert?.build) undoError = await this.recordUndo(name, args, output.structuredContent ?? {}, revert.build);
+        return undoError ? withoutUndo(output, undoError) : output;
+      } catch (err) {
+        console.error(`Tool ${name} failed:`, err);
+        if (write) await audit({ outcome: 'error', error: err instanceof Error ? err.message : String(err) });
+        return errorResult(err);
+      }
+    }) as ToolCallback<AnySchema>);
+  }
+
+  /**
+   * Runs a tool's undo capture before its write. Failing here only loses the undo, not the write;
+   * the error is returned so the result can say the change cannot be undone.
+   */
+  private async captureUndo<Args>(
+    tool: string,
+    undo: (args: Args) => Promise<UndoBuilder>,
+    args: Args,
+  ): Promise<{ build?: UndoBuilder; error?: string }> {
+    try {
+      return { build: await undo(args) };
+    } catch (err) {
+      console.error(`Failed to capture undo for ${tool}, continuing without it:`, err);
+      return { error: `Could not read the state to restore: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+
+  /** Journals how to revert a write that succeeded; failing here only loses the undo, and returns why. */
+  private async recordUndo(
+    tool: string,
+    args: Record<string, unknown>,
+    result: Record<string, unknown>,
+    actions: UndoBuilder,
+  ): Promise<string | undefined> {
+    try {
+      const steps = await actions(result);
+      if (!steps.length) return undefined;
+      const customFoodIds = (resultIds(result)?.custom_food_id ?? []).map(Number);
+      await this.undoJournal.push({
+        tool,
+        profile: (args.profile as string | undefined) || this.activeProfile,
+        arguments: redactArguments(args),
+        actions: steps,
+        ...(customFoodIds.length ? { custom_food_ids: customFoodIds } : {}),
+      });
+      return undefined;
+    } catch (err) {
+      console.error(`Failed to record undo for ${tool}:`, err);
+      return `Could not record the undo: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  /**
+   * Confirm mode gate for a write. Returns undefined when the call may proceed: it carries a valid
+   * confirmation token or the client confirmed through elicitation. Otherwise returns the preview
+   * with a fresh token and changes nothing.
+   */
+  private async confirmWrite<Args>(
+    server: McpServer,
+    name: string,
+    args: Args,
+    token: string | undefined,
+    preview?: (args: Args) => Promise<Record<string, unknown>>,
+  ): Promise<CallToolResult | undefined> {
+    if (token) {
+      if (this.confirmations.consume(token, name, args)) return undefined;
+      throw new InvalidParameterError(
+        'The confirmation token is invalid, expired, or was issued for different arguments',
+        undefined,
+        undefined,
+        `Call ${name} again without confirmation_token to get a new preview, and confirm it with the same arguments.`,
+      );
+    }
+
+    const change = preview ? await preview(args) : { arguments: args };
+
+    if (server.server.getClientCapabilities()?.elicitation) {
+      const answer = await server.server.elicitInput({
+        message: `Apply this change with ${name}?\n${JSON.stringify(change, null, 2)}`,
+        requestedSchema: {
+          type: 'object',
+          properties: { confirm: { type: 'boolean', title: 'Apply this change' } },
+          required: ['confirm'],
+        },
+      });
+      if (answer.action === 'accept' && answer.content?.confirm === true) return undefined;
+      return text({ dry_run: true, tool: name, ...change, message: 'The user did not confirm the change. Nothing was changed.' });
+    }
+
+    return text({
+      dry_run: true,
+      tool: name,
+      ...change,
+      confirmation_token: this.confirmations.issue(name, args),
+      message: `Nothing was changed yet. Show this to the user and, once they agree, call ${name} again with the same arguments plus confirmation_token.`,
+    });
   }
 
   // ── Public API – Foods ──
 
-  private registerPublicFoodTools(): void {
-    this.server.registerTool(
+  private registerPublicFoodTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'search_foods',
       {
         description: 'Search the FatSecret food database. Returns food names, descriptions, and basic nutrition info.',
         inputSchema: schemas.SearchFoodsInputSchema,
+        outputSchema: schemas.SearchFoodsOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/foods/search/v5', {
+        const data = unwrap(await this.publicClient.GET('/foods/search/v5', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_food',
       {
         description: 'Get detailed nutritional information for a specific food by ID. Returns servings, calories, macros, and micronutrients.',
         inputSchema: schemas.GetFoodInputSchema,
+        outputSchema: schemas.GetFoodOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/food/v5', {
+        const data = unwrap(await this.publicClient.GET('/food/v5', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'find_food_by_barcode',
       {
         description: 'Find food by barcode (GTIN-13). UPC-A, EAN-13 and EAN-8 supported. Premier exclusive.',
         inputSchema: schemas.FindFoodByBarcodeInputSchema,
+        outputSchema: schemas.FindFoodByBarcodeOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       },
       async ({ barcode, ...rest }) => {
-        const { data } = await this.publicClient.GET('/food/barcode/find-by-id/v2', {
+        const data = unwrap(await this.publicClient.GET('/food/barcode/find-by-id/v2', {
           params: { query: { barcode: Number(barcode), ...rest, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'autocomplete_foods',
       {
         description: 'Get autocomplete suggestions for a partial food search expression. Premier exclusive.',
@@ -295,9 +826,9 @@ class FatSecretMcpServer {
         annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/food/autocomplete/v2', {
+        const data = unwrap(await this.publicClient.GET('/food/autocomplete/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
@@ -305,42 +836,270 @@ class FatSecretMcpServer {
 
   // ── Public API – Recipes ──
 
-  private registerPublicRecipeTools(): void {
-    this.server.registerTool(
+  private registerPublicRecipeTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'search_recipes',
       {
         description: 'Search recipes with optional filters for calories, macros, prep time, and recipe types.',
         inputSchema: schemas.SearchRecipesInputSchema,
+        outputSchema: schemas.SearchRecipesOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/recipes/search/v3', {
+        const data = unwrap(await this.publicClient.GET('/recipes/search/v3', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_recipe',
       {
         description: 'Get detailed recipe information by ID including ingredients, directions, and nutrition.',
         inputSchema: schemas.GetRecipeInputSchema,
+        outputSchema: schemas.GetRecipeOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/recipe/v2', {
+        const data = unwrap(await this.publicClient.GET('/recipe/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
+
+    this.registerTool(
+      server,
+      'scale_recipe',
+      {
+        description: "Scale a recipe to a number of servings or a total yield in grams (or both: a batch of yield_g split into servings portions). Returns the recipe with ingredient quantities scaled, nutrition per serving for the new portion size, and the whole batch's nutrition. ingredient_description keeps the original wording.",
+        inputSchema: schemas.ScaleRecipeInputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      },
+      async ({ recipe_id, servings, yield_g }) => {
+        if (servings === undefined && yield_g === undefined) {
+          throw new MissingParameterError(
+            'No batch size given',
+            undefined,
+            undefined,
+            'Pass servings, yield_g, or both to split a batch of yield_g into servings portions.',
+          );
+        }
+        const recipe = await this.fetchRecipe(recipe_id);
+        const factor = batchFactor(recipe, { servings, yield_g });
+        const scaled = scaleRecipe(recipe, factor, servings);
+        return text({
+          recipe: scaled,
+          scale: {
+            multiplier: round(factor, 3),
+            original_servings: recipe.number_of_servings,
+            original_grams_per_portion: recipe.grams_per_portion,
+          },
+          batch_nutrition: batchNutrition(scaled),
+        });
+      },
+    );
+
+    this.registerTool(
+      server,
+      'generate_meal_plan',
+      {
+        description: "Plan breakfasts, lunches, dinners and snacks from FatSecret recipes for several days, fitting a daily calorie budget and macro targets within a tolerance and without repeating recipes. Targets not given are taken from the profile's stored goals (set_goals). Returns each day's recipes, servings and totals.",
+        inputSchema: schemas.GenerateMealPlanInputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      },
+      async ({
+        days = DEFAULT_PLAN_DAYS,
+        start_date = today(),
+        meals = [...MEALS],
+        tolerance_pct = DEFAULT_PLAN_TOLERANCE_PCT,
+        max_prep_time_min,
+        search_expression,
+        profile,
+        ...overrides
+      }) => {
+        const goals = mergeGoals(loadGoalsFile(this.getGoalsPath())[profile || this.activeProfile] ?? {}, overrides);
+        if (!goals.calories) {
+          throw new MissingParameterError(
+            'No calorie target for the meal plan',
+            undefined,
+            undefined,
+            'Pass calories, or store a daily budget with set_goals.',
+          );
+        }
+        const targets: PlanTargets = { calories: goals.calories, ...macroTargets(goals) };
+        const budgets = mealBudgets(goals.calories, [...new Set(meals)], goals.meal_calories);
+
+        const candidates = Object.fromEntries(await Promise.all(budgets.map(async ({ meal, calories }) => {
+          const search = { search_expression, 'prep_time.to': max_prep_time_min };
+          let recipes = await this.recipeCandidates({ ...search, ...recipeSearchFilters(meal, calories, targets, true) });
+          if (recipes.length < days) {
+            // Too few recipes with a matching macro split: fall back to the calorie range alone
+            const more = await this.recipeCandidates({ ...search, ...recipeSearchFilters(meal, calories, targets, false) });
+            const ids = new Set(recipes.map((recipe) => recipe.recipe_id));
+            recipes = [...recipes, ...more.filter((recipe) => !ids.has(recipe.recipe_id))];
+          }
+          return [meal, recipes];
+        })));
+        const plan = planMeals({ days, targets, budgets, candidates });
+
+        // Totals use the per-serving nutrition of the full recipes, not the search summaries
+        const ids = [...new Set(plan.days.flat().map(({ recipe }) => recipe.recipe_id))];
+        const details = new Map(await mapConcurrent(ids, BULK_CONCURRENCY, async (id) => [id, await this.recipeNutrition(id)] as const));
+        const tolerance = tolerance_pct / 100;
+        const planDays = plan.days.map((picks, i) => ({
+          date: daysToDate(dateToDays(start_date) + i),
+          ...summarizePlanDay(
+            picks.map((pick) => ({ ...pick, recipe: details.get(pick.recipe.recipe_id) ?? pick.recipe })),
+            targets,
+            tolerance,
+          ),
+        }));
+
+        const notes = budgets
+          .filter(({ meal }) => candidates[meal].length === 0)
+          .map(({ meal }) => `No ${meal} recipes matched the filters; that meal is left out.`);
+        if (plan.repeats > 0) {
+          notes.push(`${plan.repeats} meal(s) repeat a recipe: not enough different recipes matched the filters.`);
+        }
+        return text({
+          start_date,
+          days,
+          tolerance_pct,
+          targets: {
+            calories: targets.calories,
+            protein_g: targets.protein,
+            carbohydrate_g: targets.carbohydrate,
+            fat_g: targets.fat,
+          },
+          meal_budgets: budgets,
+          days_within_tolerance: planDays.filter((day) => day.within_tolerance).length,
+          plan: planDays,
+          notes,
+        });
+      },
+    );
+
+    this.registerTool(
+      server,
+      'build_shopping_list',
+      {
+        description: 'Turn several recipes into one grocery list: ingredients are scaled by each recipe\'s multiplier (or servings to cook) and merged per food where the units are compatible (weights in g, volumes in ml, counted units by name). With group_by_category, items are grouped by FatSecret food category (needs a Premier API key; otherwise the list stays ungrouped).',
+        inputSchema: schemas.BuildShoppingListInputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      },
+      async ({ recipes, group_by_category = false }) => {
+        const ingredients: ShoppingIngredient[] = [];
+        const cooked = [];
+        for (const { recipe_id, multiplier, servings } of recipes) {
+          if (multiplier !== undefined && servings !== undefined) {
+            throw new InvalidParameterError(
+              `Both multiplier and servings were given for recipe ${recipe_id}`,
+              undefined,
+              undefined,
+              'Pass either multiplier or servings for each recipe, not both.',
+            );
+          }
+          const recipe = await this.fetchRecipe(recipe_id);
+          const factor = batchFactor(recipe, { multiplier, servings });
+          const scaled = scaleRecipe(recipe, factor);
+          cooked.push({ recipe_id, recipe_name: recipe.recipe_name, multiplier: round(factor, 3), servings: scaled.number_of_servings });
+          for (const ingredient of scaled.ingredients?.ingredient ?? []) {
+            ingredients.push({ ...ingredient, recipe_id, number_of_units: ingredient.number_of_units ?? factor });
+          }
+        }
+
+        // Sub-categories are a Premier feature; keys without it get the list ungrouped
+        let withCategories = group_by_category;
+        const notes: string[] = [];
+        const fetchFood = async (food_id: number) => {
+          if (withCategories) {
+            try {
+              return unwrap(await this.publicClient.GET('/food/v5', {
+                params: { query: { food_id, include_sub_categories: true, format: 'json' } },
+              }));
+            } catch (err) {
+              if (!(err instanceof PremierOnlyError)) throw err;
+              if (withCategories) notes.push('Food categories need a FatSecret Premier API key, so the list is not grouped.');
+              withCategories = false;
+            }
+          }
+          return unwrap(await this.publicClient.GET('/food/v5', { params: { query: { food_id, format: 'json' } } }));
+        };
+
+        const foodIds = [...new Set(ingredients.map((ingredient) => ingredient.food_id))];
+        const foods = new Map(await mapConcurrent(foodIds, BULK_CONCURRENCY, async (food_id) => {
+          const { food } = parseResponse(schemas.GetFoodOutputSchema, await fetchFood(food_id), 'food');
+          const info: ShoppingFood = {
+            food_name: food.food_name,
+            servings: food.servings?.serving ?? [],
+            category: food.food_sub_categories?.food_sub_category[0],
+          };
+          return [food_id, info] as const;
+        }));
+        // After a fallback halfway through only some foods would be categorized
+        if (!withCategories) for (const food of foods.values()) delete food.category;
+
+        const categories = buildShoppingList(ingredients, foods);
+        return text({
+          recipes: cooked,
+          item_count: categories.reduce((sum, { items }) => sum + items.length, 0),
+          categories,
+          ...(notes.length ? { notes } : {}),
+        });
+      },
+    );
+  }
+
+  /** Recipes from `/recipes/search/v3` with their per-serving calories and macros. */
+  private async recipeCandidates(
+    query: Omit<NonNullable<PublicPaths['/recipes/search/v3']['get']['parameters']['query']>, 'format'>,
+  ): Promise<PlanRecipe[]> {
+    const data = unwrap(await this.publicClient.GET('/recipes/search/v3', {
+      params: { query: { ...query, max_results: PLAN_SEARCH_RESULTS, format: 'json' } },
+    }));
+    const recipes = parseResponse(schemas.SearchRecipesOutputSchema, data, 'recipe search').recipes.recipe ?? [];
+    return recipes.flatMap(({ recipe_id, recipe_name, recipe_nutrition: nutrition }) =>
+      nutrition?.calories === undefined
+        ? []
+        : [{
+            recipe_id,
+            recipe_name,
+            calories: nutrition.calories,
+            protein: nutrition.protein ?? 0,
+            carbohydrate: nutrition.carbohydrate ?? 0,
+            fat: nutrition.fat ?? 0,
+          }],
+    );
+  }
+
+  private async fetchRecipe(recipe_id: number): Promise<schemas.Recipe> {
+    const data = unwrap(await this.publicClient.GET('/recipe/v2', { params: { query: { recipe_id, format: 'json' } } }));
+    return parseResponse(schemas.GetRecipeOutputSchema, data, 'recipe').recipe;
+  }
+
+  /** A recipe's nutrition per serving from `/recipe/v2`. */
+  private async recipeNutrition(recipe_id: number): Promise<PlanRecipe> {
+    const recipe = await this.fetchRecipe(recipe_id);
+    const serving = recipe.serving_sizes?.serving[0];
+    return {
+      recipe_id,
+      recipe_name: recipe.recipe_name,
+      calories: serving?.calories ?? 0,
+      protein: serving?.protein ?? 0,
+      carbohydrate: serving?.carbohydrate ?? 0,
+      fat: serving?.fat ?? 0,
+    };
   }
 
   // ── Public API – Reference Data ──
 
-  private registerPublicReferenceTools(): void {
-    this.server.registerTool(
+  private registerPublicReferenceTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'get_food_categories',
       {
         description: 'Get the full list of food categories. Premier exclusive.',
@@ -348,14 +1107,15 @@ class FatSecretMcpServer {
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/food-categories/v2', {
+        const data = unwrap(await this.publicClient.GET('/food-categories/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_food_sub_categories',
       {
         description: 'Get food sub categories for a given food category. Premier exclusive.',
@@ -363,14 +1123,15 @@ class FatSecretMcpServer {
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/food-sub-categories/v2', {
+        const data = unwrap(await this.publicClient.GET('/food-sub-categories/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_brands',
       {
         description: 'Get the list of food brands, optionally filtered by starting letter and type. Premier exclusive.',
@@ -378,14 +1139,15 @@ class FatSecretMcpServer {
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
       async (args) => {
-        const { data } = await this.publicClient.GET('/brands/v2', {
+        const data = unwrap(await this.publicClient.GET('/brands/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_recipe_types',
       {
         description: 'Get the full list of supported recipe type names.',
@@ -393,9 +1155,9 @@ class FatSecretMcpServer {
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
       async () => {
-        const { data } = await this.publicClient.GET('/recipe-types/v2', {
+        const data = unwrap(await this.publicClient.GET('/recipe-types/v2', {
           params: { query: { format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
@@ -403,91 +1165,321 @@ class FatSecretMcpServer {
 
   // ── Profile API – Food Diary ──
 
-  private registerFoodDiaryTools(): void {
-    this.server.registerTool(
+  private registerFoodDiaryTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'get_food_entries',
       {
         description: 'Get food diary entries for a date or a specific entry by ID. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.GetFoodEntriesInputSchema,
+        outputSchema: schemas.GetFoodEntriesOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
+        // The date is ignored when fetching one entry by ID
+        dates: ({ date, food_entry_id }) => ({ date: date ?? (food_entry_id === undefined ? today() : undefined) }),
       },
-      async ({ date, ...rest }) => {
-        const { data } = await this.profileClient.GET('/food-entries/v2', {
+      async ({ date, profile, ...rest }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/food-entries/v2', {
           params: { query: { ...rest, date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_food_entries_month',
       {
         description: 'Get daily nutrition summary for a month. Returns calories and macros per day. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.GetFoodEntriesMonthInputSchema,
+        outputSchema: schemas.GetFoodEntriesMonthOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async ({ date }) => {
-        const { data } = await this.profileClient.GET('/food-entries/month/v2', {
+      async ({ date, profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/food-entries/month/v2', {
           params: { query: { date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
+      'get_daily_summary',
+      {
+        description: 'Get nutrition totals for a diary day: calories, macros and micronutrients summed per meal and for the whole day, plus macro percentages. Requires profile auth (check_auth_status first).',
+        inputSchema: schemas.GetDailySummaryInputSchema,
+        outputSchema: schemas.GetDailySummaryOutputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true },
+      },
+      async ({ date, profile }) => {
+        const entries = await this.fetchFoodEntries(date, profile);
+        return text({ date: date ?? today(), ...summarizeByMeal(entries) });
+      },
+    );
+
+    this.registerTool(
+      server,
       'create_food_entry',
       {
-        description: 'Add a food diary entry. Requires food_id, serving_id, and meal type. Requires profile auth (check_auth_status first).',
+        description: 'Add a food diary entry. Requires food_id, meal type, and either serving_id + number_of_units or an amount/unit such as 150 g, 2 oz or 1 cup (converted to the best-matching serving). Requires profile auth (check_auth_status first).',
         inputSchema: schemas.CreateFoodEntryInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
+        undo: async () => deleteCreatedEntries,
       },
-      async ({ date, ...rest }) => {
-        const { data } = await this.profileClient.POST('/food-entries/v1', {
-          params: { query: { ...rest, date: optionalDateToDays(date), format: 'json' } },
+      async (args) => text(await this.createFoodEntry(args)),
+    );
+
+    this.registerTool(
+      server,
+      'create_food_entries',
+      {
+        description: 'Add several food diary entries in one call, e.g. a whole day. Each entry takes the same fields as create_food_entry (food_id, food_entry_name, meal, date, and serving_id + number_of_units or amount/unit). Returns a per-entry report with the created food_entry_id or the error, so failed items can be retried on their own. Requires profile auth (check_auth_status first).',
+        inputSchema: schemas.CreateFoodEntriesInputSchema,
+        annotations: { readOnlyHint: false, idempotentHint: false },
+        undo: async () => deleteCreatedEntries,
+      },
+      async ({ entries, profile }) => {
+        const results = await mapConcurrent(entries, BULK_CONCURRENCY, async (entry, index) => {
+          const item = { index, food_entry_name: entry.food_entry_name, meal: entry.meal, date: entry.date ?? today() };
+          try {
+            const data = normalizeResponse(await this.createFoodEntry({ ...entry, profile })) as {
+              food_entry_id?: { value?: number };
+              conversion?: ServingConversion;
+            };
+            return { ...item, food_entry_id: data.food_entry_id?.value, conversion: data.conversion };
+          } catch (err) {
+            return { ...item, error: err instanceof Error ? err.message : String(err) };
+          }
+        });
+        const failed = results.filter((result) => 'error' in result).length;
+        return text({ created: results.length - failed, failed, results });
+      },
+    );
+
+    const logFoodText = async (args: z.infer<typeof schemas.LogFoodTextInputSchema>) => {
+      const { text: description, meal = 'other', date, confirm = false, profile } = args;
+      const parsed = parseFoodText(description);
+      if (!parsed.length) {
+        throw new InvalidParameterError(
+          `No foods found in "${description}"`,
+          undefined,
+          undefined,
+          'Describe each food with an optional amount, e.g. "150 g chicken breast and 1 cup rice for lunch".',
+        );
+      }
+
+      const items = [];
+      for (const item of parsed) items.push(await this.resolveFoodText(item, item.meal ?? meal));
+
+      if (confirm) {
+        const client = this.profileClientFor(profile);
+        for (const item of items) {
+          if (item.error || item.food_id === undefined || item.serving_id === undefined) continue;
+          try {
+            const data = unwrap(await client.POST('/food-entries/v1', {
+              params: {
+                query: {
+                  food_id: item.food_id,
+                  food_entry_name: item.food_name,
+                  serving_id: item.serving_id,
+                  number_of_units: item.number_of_units,
+                  meal: item.meal,
+                  date: optionalDateToDays(date),
+                  format: 'json',
+                },
+              },
+            }));
+            item.food_entry_id = normalizeResponse(data as { food_entry_id?: { value?: number } }).food_entry_id?.value;
+          } catch (err) {
+            item.error = err instanceof Error ? err.message : String(err);
+          }
+        }
+      }
+
+      const { calories, protein, carbohydrate, fat } = sumNutrients(items.filter((i) => !i.error));
+      return text({
+        date: date ?? today(),
+        created: confirm,
+        items,
+        totals: { calories, protein, carbohydrate, fat },
+      });
+    };
+
+    this.registerTool(
+      server,
+      'log_food_text',
+      {
+        description: 'Log food from a plain-language description such as "two eggs and a slice of whole-wheat toast for breakfast". Parses quantities, units (g, oz, cups, tbsp, slices, ...) and meal words, finds each food and the best-matching serving. Returns a preview by default; call again with confirm: true to create the diary entries. Requires profile auth (check_auth_status first).',
+        inputSchema: schemas.LogFoodTextInputSchema,
+        outputSchema: schemas.LogFoodTextOutputSchema,
+        annotations: { readOnlyHint: false, idempotentHint: false, openWorldHint: true },
+        // Without confirm the tool only previews, so confirm mode and the audit log skip it
+        writes: (args) => !!args.confirm,
+        preview: async (args) => (await logFoodText({ ...args, confirm: false })).structuredContent ?? {},
+        undo: async () => deleteCreatedEntries,
+      },
+      logFoodText,
+    );
+
+    this.registerTool(
+      server,
+      'log_recipe',
+      {
+        description: 'Log servings of a recipe to the food diary: by default one entry per ingredient (its food_id and serving_id, scaled to the servings eaten), or with mode "recipe" a single entry through a custom food holding the recipe\'s nutrition per serving (Premier exclusive). The custom food is created once per recipe and profile and reused by later calls (recipe_food_id; custom_food_id only when this call created it); FatSecret cannot delete custom foods, so undo removes the entries but keeps the food. Returns the created food_entry_ids. Requires profile auth (check_auth_status first).',
+        inputSchema: schemas.LogRecipeInputSchema,
+        annotations: { readOnlyHint: false, idempotentHint: false, openWorldHint: true },
+        preview: async ({ recipe_id, servings = 1, meal, date = today(), mode = 'ingredients' }) => {
+          const recipe = await this.fetchRecipe(recipe_id);
+          return {
+            action: 'create',
+            recipe_id,
+            recipe_name: recipe.recipe_name,
+            servings,
+            mode,
+            meal,
+            date,
+            food_entries: recipeEntries(recipe, servings, mode),
+          };
+        },
+        undo: async () => deleteCreatedEntries,
+      },
+      async ({ recipe_id, servings = 1, meal, date, mode = 'ingredients', profile }) => {
+        const recipe = await this.fetchRecipe(recipe_id);
+        const client = this.profileClientFor(profile);
+        let entries = recipeEntries(recipe, servings, mode);
+        let recipeFood: { food_id: number; created: boolean } | undefined;
+        if (mode === 'recipe') {
+          const food = await this.recipeFood(recipe, profile);
+          recipeFood = food;
+          entries = entries.map((entry) => ({
+            ...entry,
+            food_id: food.food_id,
+            serving_id: food.serving_id,
+            number_of_units: servings * food.number_of_units,
+          }));
+        }
+
+        const results = await mapConcurrent(entries, BULK_CONCURRENCY, async (entry) => {
+          const { food_id, food_entry_name, serving_id, number_of_units } = entry;
+          if (food_id === undefined || serving_id === undefined || number_of_units === undefined) {
+            return { ...entry, error: 'The ingredient has no serving to log' };
+          }
+          try {
+            const data = unwrap(await client.POST('/food-entries/v1', {
+              params: {
+                query: { food_id, food_entry_name, serving_id, number_of_units, meal, date: optionalDateToDays(date), format: 'json' },
+              },
+            }));
+            return { ...entry, food_entry_id: normalizeResponse(data as { food_entry_id?: { value?: number } }).food_entry_id?.value };
+          } catch (err) {
+            return { ...entry, error: err instanceof Error ? err.message : String(err) };
+          }
+        });
+
+        const failed = results.filter((result) => 'error' in result).length;
+        return text({
+          recipe_id,
+          recipe_name: recipe.recipe_name,
+          servings,
+          mode,
+          meal,
+          ...(recipeFood ? { recipe_food_id: recipeFood.food_id } : {}),
+          // Only a food this call created counts as a change for the audit log and undo
+          ...(recipeFood?.created ? { custom_food_id: recipeFood.food_id } : {}),
+          created: results.length - failed,
+          failed,
+          results,
         });
-        return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'edit_food_entry',
       {
-        description: 'Edit an existing food diary entry. Cannot change the date. Requires profile auth (check_auth_status first).',
+        description: 'Edit an existing food diary entry. Cannot change the date. The portion can be given as serving_id/number_of_units or as an amount/unit (e.g. 200 g). Requires profile auth (check_auth_status first).',
         inputSchema: schemas.EditFoodEntryInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.PUT('/food-entries/v1', {
+        preview: async ({ profile, ...changes }) => ({
+          action: 'edit',
+          food_entry: describeEntry(await this.fetchFoodEntry(changes.food_entry_id, profile)),
+          changes,
+        }),
+        undo: async ({ food_entry_id, profile }) => {
+          const entry = await this.fetchFoodEntry(food_entry_id, profile);
+          const { food_entry_name, serving_id, number_of_units } = entry;
+          return () => [{ type: 'edit_food_entry', food_entry_id, food_entry_name, serving_id, number_of_units, meal: toMeal(entry.meal) }];
+        },
+      },
+      async ({ profile, amount, unit, ...args }) => {
+        const client = this.profileClientFor(profile);
+        let conversion: ServingConversion | undefined;
+        if (amount !== undefined || unit !== undefined) {
+          const entry = await this.fetchFoodEntry(args.food_entry_id, profile);
+          const serving = await this.resolveServing(entry.food_id, { ...args, amount, unit });
+          Object.assign(args, { serving_id: serving.serving_id, number_of_units: serving.number_of_units });
+          conversion = serving.conversion;
+        }
+        const data = unwrap(await client.PUT('/food-entries/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
-        return text(data);
+        }));
+        return text(withConversion(data, conversion));
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'delete_food_entry',
       {
         description: 'Delete a food diary entry by ID. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.DeleteFoodEntryInputSchema,
         annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.DELETE('/food-entries/v1', {
+        preview: async ({ food_entry_id, profile }) => ({
+          action: 'delete',
+          food_entry: describeEntry(await this.fetchFoodEntry(food_entry_id, profile)),
+        }),
+        undo: async ({ food_entry_id, profile }) => {
+          const action = recreateEntry(await this.fetchFoodEntry(food_entry_id, profile));
+          return () => (action ? [action] : []);
+        },
+      },
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).DELETE('/food-entries/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'copy_food_entries',
       {
         description: 'Copy food entries from one date to another, optionally filtered by meal. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.CopyFoodEntriesInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
-      },
-      async ({ from_date, to_date, ...rest }) => {
-        const { data } = await this.profileClient.POST('/food-entries/copy/v1', {
+        preview: async ({ from_date, to_date, meal, profile }) => ({
+          action: 'create',
+          date: to_date,
+          food_entries: (await this.fetchFoodEntries(from_date, profile))
+            .filter((entry) => !meal || toMeal(entry.meal) === meal)
+            .map(({ food_entry_name, meal: entryMeal, number_of_units, calories }) => ({
+              food_entry_name,
+              meal: entryMeal,
+              number_of_units,
+              calories,
+            })),
+        }),
+        undo: async ({ from_date, to_date, meal, profile }) => {
+          const copied = (await this.fetchFoodEntries(from_date, profile))
+            .map((entry) => ({ ...entry, meal: toMeal(entry.meal) }))
+            .filter((entry) => !meal || entry.meal === meal);
+          const before = await this.foodEntryIds(to_date, profile);
+          return async () => deleteCopiedEntries(before, await this.fetchFoodEntries(to_date, profile), copied);
+        },
+      },
+      async ({ from_date, to_date, profile, ...rest }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/food-entries/copy/v1', {
           params: {
             query: {
               ...rest,
@@ -496,131 +1488,635 @@ class FatSecretMcpServer {
               format: 'json',
             },
           },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
+      'move_food_entries',
+      {
+        description: 'Move food diary entries to another date and/or meal. Select entries by food_entry_ids, or by from_date with an optional from_meal. Each entry is re-created with the same food, serving and units, and the originals are deleted only after all of them were; if one cannot be re-created, the new entries are removed again and nothing moves. Returns the new food_entry_ids. Requires profile auth (check_auth_status first).',
+        inputSchema: schemas.MoveFoodEntriesInputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+        dates: ({ from_date, to_date }) => ({ from_date, to_date }),
+        preview: async (args) => ({
+          action: 'move',
+          to_date: args.to_date ?? null,
+          to_meal: args.to_meal ?? null,
+          food_entries: (await this.entriesToMove(args)).map(describeEntry),
+        }),
+        undo: async (args) => {
+          const originals = new Map((await this.entriesToMove(args)).map((entry) => [entry.food_entry_id, recreateEntry(entry)]));
+          return (result) =>
+            (result.results as { food_entry_id: number; new_food_entry_id?: number; moved: boolean }[]).flatMap((item) => {
+              const actions: UndoAction[] = [];
+              const original = originals.get(item.food_entry_id);
+              if (item.moved && original) actions.push(original);
+              if (item.new_food_entry_id !== undefined) {
+                actions.push({ type: 'delete_food_entry', food_entry_id: item.new_food_entry_id });
+              }
+              return actions;
+            });
+        },
+      },
+      async (args) => {
+        const { to_date, to_meal, profile } = args;
+        const entries = await this.entriesToMove(args);
+        const client = this.profileClientFor(profile);
+        const deleteEntry = async (foodEntryId: number) => {
+          unwrap(await client.DELETE('/food-entries/v1', { params: { query: { food_entry_id: foodEntryId, format: 'json' } } }));
+        };
+
+        // Every entry is re-created before any original is deleted
+        const created = await mapConcurrent(entries, BULK_CONCURRENCY, async (entry) => {
+          const from = { date: entry.date, meal: toMeal(entry.meal) };
+          const to = { date: to_date ?? entry.date, meal: to_meal ?? from.meal };
+          const item = { food_entry_id: entry.food_entry_id, food_entry_name: entry.food_entry_name, from, to };
+          const original = recreateEntry(entry);
+          if (!original) {
+            return { ...item, error: 'The entry has no serving or date to re-create it with' };
+          }
+
+          try {
+            const { food_id, food_entry_name, serving_id, number_of_units } = original;
+            const data = unwrap(await client.POST('/food-entries/v1', {
+              params: {
+                query: {
+                  food_id,
+                  food_entry_name,
+                  serving_id,
+                  number_of_units,
+                  meal: to.meal,
+                  date: dateToDays(to.date ?? original.date),
+                  format: 'json',
+                },
+              },
+            }));
+            return { ...item, new_food_entry_id: normalizeResponse(data as { food_entry_id?: { value?: number } }).food_entry_id?.value };
+          } catch (err) {
+            return { ...item, error: err instanceof Error ? err.message : String(err) };
+          }
+        });
+
+        // If one failed, nothing moves: the new entries are removed again and the originals stay
+        const complete = created.every((entry) => !('error' in entry));
+        const results = await mapConcurrent(created, BULK_CONCURRENCY, async (entry) => {
+          if ('error' in entry) return { ...entry, moved: false };
+          const { new_food_entry_id: newId, ...item } = entry;
+          if (!complete) {
+            const reason = 'Not moved because another entry could not be re-created';
+            try {
+              if (newId !== undefined) await deleteEntry(newId);
+              return { ...item, moved: false, error: reason };
+            } catch (err) {
+              const detail = err instanceof Error ? err.message : String(err);
+              return { ...item, new_food_entry_id: newId, moved: false, error: `${reason}, and removing its new entry failed: ${detail}` };
+            }
+          }
+
+          try {
+            await deleteEntry(item.food_entry_id);
+          } catch (err) {
+            const reason = err instanceof Error ? err.message : String(err);
+            return { ...item, new_food_entry_id: newId, moved: false, error: `Created the new entry but could not delete the original: ${reason}` };
+          }
+          return { ...item, new_food_entry_id: newId, moved: true };
+        });
+
+        const moved = results.filter((result) => result.moved).length;
+        return text({
+          from_date: args.from_date ?? null,
+          to_date: to_date ?? null,
+          moved,
+          failed: results.length - moved,
+          results,
+        });
+      },
+    );
+
+    this.registerTool(
+      server,
       'copy_saved_meal_entries',
       {
         description: 'Copy entries from a saved meal to a meal on a specific date. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.CopySavedMealEntriesInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
-      },
-      async ({ date, ...rest }) => {
-        const { data } = await this.profileClient.POST('/food-entries/copy/saved-meal/v1', {
+        preview: async ({ saved_meal_id, meal, date = today(), profile }) => ({
+          action: 'create',
+          date,
+          meal,
+          ...(await this.fetchSavedMeal(saved_meal_id, profile)),
+        }),
+        undo: async ({ saved_meal_id, meal, date, profile }) => {
+          const copied = (await this.fetchSavedMealItems(saved_meal_id, profile)).map((item) => ({ ...item, meal }));
+          const before = await this.foodEntryIds(date, profile);
+          return async () => deleteCopiedEntries(before, await this.fetchFoodEntries(date, profile), copied);
+        },
+      },
+      async ({ date, profile, ...rest }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/food-entries/copy/saved-meal/v1', {
           params: { query: { ...rest, date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
   }
 
+  /** Creates one diary entry, converting an amount/unit to a serving first. */
+  private async createFoodEntry(args: z.infer<typeof schemas.CreateFoodEntryInputSchema>): Promise<unknown> {
+    const { date, profile, serving_id, number_of_units, amount, unit, ...rest } = args;
+    const serving = await this.resolveServing(rest.food_id, { serving_id, number_of_units, amount, unit });
+    const data = unwrap(await this.profileClientFor(profile).POST('/food-entries/v1', {
+      params: {
+        query: {
+          ...rest,
+          serving_id: serving.serving_id,
+          number_of_units: serving.number_of_units,
+          date: optionalDateToDays(date),
+          format: 'json',
+        },
+      },
+    }));
+    return withConversion(data, serving.conversion);
+  }
+
+  /** Normalized food diary entries for a date (default today). */
+  private async fetchFoodEntries(date: string | undefined, profile?: string): Promise<schemas.FoodEntry[]> {
+    const data = unwrap(await this.profileClientFor(profile).GET('/food-entries/v2', {
+      params: { query: { date: optionalDateToDays(date), format: 'json' } },
+    }));
+    return parseResponse(schemas.GetFoodEntriesOutputSchema, data, 'food entries').food_entries?.food_entry ?? [];
+  }
+
+  /** A single diary entry by ID; throws if it doesn't exist. */
+  private async fetchFoodEntry(foodEntryId: number, profile?: string): Promise<schemas.FoodEntry & { food_id: number }> {
+    const data = unwrap(await this.profileClientFor(profile).GET('/food-entries/v2', {
+      params: { query: { food_entry_id: foodEntryId, format: 'json' } },
+    }));
+    const entry = parseResponse(schemas.GetFoodEntriesOutputSchema, data, 'food entry').food_entries?.food_entry?.[0];
+    if (entry?.food_id === undefined) {
+      throw new InvalidParameterError(
+        `Food entry ${foodEntryId} was not found`,
+        undefined,
+        undefined,
+        'Check the food_entry_id with get_food_entries.',
+      );
+    }
+    return { ...entry, food_id: entry.food_id };
+  }
+
+  private async fetchSavedMeals(profile?: string): Promise<schemas.SavedMeal[]> {
+    const data = unwrap(await this.profileClientFor(profile).GET('/saved-meals/v2', {
+      params: { query: { format: 'json' } },
+    }));
+    return parseResponse(schemas.GetSavedMealsOutputSchema, data, 'saved meals').saved_meals?.saved_meal ?? [];
+  }
+
+  private async fetchSavedMealItems(savedMealId: number, profile?: string): Promise<schemas.SavedMealItem[]> {
+    const data = unwrap(await this.profileClientFor(profile).GET('/saved-meals/item/v2', {
+      params: { query: { saved_meal_id: savedMealId, format: 'json' } },
+    }));
+    return parseResponse(schemas.GetSavedMealItemsOutputSchema, data, 'saved meal items').saved_meal_items?.saved_meal_item ?? [];
+  }
+
+  /** A saved meal and its items; throws if it doesn't exist. */
+  private async fetchSavedMeal(savedMealId: number, profile?: string) {
+    const savedMeal = (await this.fetchSavedMeals(profile)).find((meal) => meal.saved_meal_id === savedMealId);
+    if (!savedMeal) {
+      throw new InvalidParameterError(
+        `Saved meal ${savedMealId} was not found`,
+        undefined,
+        undefined,
+        'Check the saved_meal_id with get_saved_meals.',
+      );
+    }
+    return { saved_meal: savedMeal, saved_meal_items: await this.fetchSavedMealItems(savedMealId, profile) };
+  }
+
+  /** A saved meal item and the meal it belongs to; the API can only list items per meal. */
+  private async findSavedMealItem(savedMealItemId: number, profile?: string) {
+    for (const meal of await this.fetchSavedMeals(profile)) {
+      const item = (await this.fetchSavedMealItems(meal.saved_meal_id, profile)).find(
+        (i) => i.saved_meal_item_id === savedMealItemId,
+      );
+      if (item) return { saved_meal_id: meal.saved_meal_id, item };
+    }
+    throw new InvalidParameterError(
+      `Saved meal item ${savedMealItemId} was not found`,
+      undefined,
+      undefined,
+      'Check the saved_meal_item_id with get_saved_meal_items.',
+    );
+  }
+
+  /** Applies one undo action with the profile the change was made for. */
+  private async revert(action: UndoAction, profile: string): Promise<void> {
+    const client = this.profileClientFor(profile);
+    switch (action.type) {
+      case 'delete_food_entry':
+        unwrap(await client.DELETE('/food-entries/v1', {
+          params: { query: { food_entry_id: action.food_entry_id, format: 'json' } },
+        }));
+        return;
+      case 'create_food_entry': {
+        const { food_id, food_entry_name, serving_id, number_of_units, meal, date } = action;
+        unwrap(await client.POST('/food-entries/v1', {
+          params: {
+            query: { food_id, food_entry_name, serving_id, number_of_units, meal, date: dateToDays(date), format: 'json' },
+          },
+        }));
+        return;
+      }
+      case 'edit_food_entry': {
+        const { food_entry_id, food_entry_name, serving_id, number_of_units, meal } = action;
+        unwrap(await client.PUT('/food-entries/v1', {
+          params: { query: { food_entry_id, food_entry_name, serving_id, number_of_units, meal, format: 'json' } },
+        }));
+        return;
+      }
+      case 'delete_saved_meal':
+        unwrap(await client.DELETE('/saved-meals/v1', {
+          params: { query: { saved_meal_id: action.saved_meal_id, format: 'json' } },
+        }));
+        return;
+      case 'create_saved_meal': {
+        const { saved_meal_name, saved_meal_description, meals } = action;
+        const data = unwrap(await client.POST('/saved-meals/v1', {
+          params: { query: { saved_meal_name, saved_meal_description, meals, format: 'json' } },
+        }));
+        const savedMealId = normalizeResponse(data as { saved_meal_id?: { value?: number } }).saved_meal_id?.value;
+        for (const item of action.items) {
+          unwrap(await client.POST('/saved-meals/item/v1', {
+            params: { query: { saved_meal_id: savedMealId, ...item, format: 'json' } },
+          }));
+        }
+        return;
+      }
+      case 'edit_saved_meal': {
+        const { saved_meal_id, saved_meal_name, saved_meal_description, meals } = action;
+        unwrap(await client.PUT('/saved-meals/v1', {
+          params: { query: { saved_meal_id, saved_meal_name, saved_meal_description, meals, format: 'json' } },
+        }));
+        return;
+      }
+      case 'delete_saved_meal_item':
+        unwrap(await client.DELETE('/saved-meals/item/v1', {
+          params: { query: { saved_meal_item_id: action.saved_meal_item_id, format: 'json' } },
+        }));
+        return;
+      case 'create_saved_meal_item': {
+        const { saved_meal_id, food_id, saved_meal_item_name, serving_id, number_of_units } = action;
+        unwrap(await client.POST('/saved-meals/item/v1', {
+          params: { query: { saved_meal_id, food_id, saved_meal_item_name, serving_id, number_of_units, format: 'json' } },
+        }));
+        return;
+      }
+      case 'edit_saved_meal_item': {
+        const { saved_meal_item_id, saved_meal_item_name, number_of_units } = action;
+        unwrap(await client.PUT('/saved-meals/item/v1', {
+          params: { query: { saved_meal_item_id, saved_meal_item_name, number_of_units, format: 'json' } },
+        }));
+        return;
+      }
+    }
+  }
+
+  /** The entries `move_food_entries` acts on: by ID, or by source date and meal. */
+  private async entriesToMove(args: z.infer<typeof schemas.MoveFoodEntriesInputSchema>): Promise<schemas.FoodEntry[]> {
+    const { food_entry_ids, from_date, from_meal, to_date, to_meal, profile } = args;
+    if (!to_date && !to_meal) {
+      throw new MissingParameterError('No target given', undefined, undefined, 'Pass to_date, to_meal or both.');
+    }
+    if (food_entry_ids && from_date) {
+      throw new InvalidParameterError(
+        'Pass either food_entry_ids or from_date, not both',
+        undefined,
+        undefined,
+        'Use food_entry_ids for single entries, or from_date (with from_meal) for a whole day or meal.',
+      );
+    }
+    if (food_entry_ids) return Promise.all(food_entry_ids.map((id) => this.fetchFoodEntry(id, profile)));
+    if (!from_date) {
+      throw new MissingParameterError(
+        'No entries selected',
+        undefined,
+        undefined,
+        'Pass food_entry_ids, or from_date with an optional from_meal.',
+      );
+    }
+    return (await this.fetchFoodEntries(from_date, profile)).filter((entry) => !from_meal || toMeal(entry.meal) === from_meal);
+  }
+
+  /** A date's entries for one meal; throws if there are none. */
+  private async diaryMealEntries(date: string | undefined, meal: Meal, profile?: string): Promise<schemas.FoodEntry[]> {
+    const entries = (await this.fetchFoodEntries(date, profile)).filter((entry) => toMeal(entry.meal) === meal);
+    if (entries.length === 0) {
+      throw new InvalidParameterError(
+        `No ${meal} entries on ${date ?? today()}`,
+        undefined,
+        undefined,
+        'Check the date and meal with get_food_entries.',
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * The custom food to log a recipe with mode "recipe" through, and its serving: the one created
+   * earlier for the same recipe and nutrition when it still exists, otherwise a new one.
+   */
+  private async recipeFood(
+    recipe: schemas.Recipe,
+    profile?: string,
+  ): Promise<{ food_id: number; serving_id: number; number_of_units: number; created: boolean }> {
+    const name = profile || this.activeProfile;
+    const key = recipeFoodKey(recipe);
+    const known = loadRecipeFoodsFile(this.getRecipeFoodsPath())[name]?.[key];
+    if (known !== undefined) {
+      try {
+        return { ...(await this.recipeFoodServing(known)), created: false };
+      } catch (err) {
+        console.error(`Custom food ${known} of recipe ${recipe.recipe_id} is gone, creating a new one:`, err);
+      }
+    }
+
+    const foodId = await this.createRecipeFood(recipe, profile);
+    const file = loadRecipeFoodsFile(this.getRecipeFoodsPath());
+    saveRecipeFoodsFile(this.getRecipeFoodsPath(), { ...file, [name]: { ...file[name], [key]: foodId } });
+    return { ...(await this.recipeFoodServing(foodId)), created: true };
+  }
+
+  /** Creates a custom food ("1 serving" of the recipe with its nutrition per serving). */
+  private async createRecipeFood(recipe: schemas.Recipe, profile?: string): Promise<number> {
+    const serving = recipe.serving_sizes?.serving[0];
+    if (serving?.calories === undefined) {
+      throw new InvalidParameterError(
+        `Recipe ${recipe.recipe_id} has no nutrition per serving`,
+        undefined,
+        undefined,
+        'Log it with mode "ingredients" instead.',
+      );
+    }
+    const optional = Object.fromEntries(
+      NUTRIENTS.filter((n) => !['calories', 'protein', 'carbohydrate', 'fat'].includes(n) && typeof serving[n] === 'number').map(
+        (n) => [n, String(serving[n])],
+      ),
+    );
+    const data = unwrap(await this.profileClientFor(profile).POST('/food/v2', {
+      params: {
+        query: {
+          brand_name: 'Recipe',
+          food_name: recipe.recipe_name,
+          serving_size: '1 serving',
+          calories: serving.calories,
+          fat: serving.fat ?? 0,
+          carbohydrate: serving.carbohydrate ?? 0,
+          protein: serving.protein ?? 0,
+          ...(recipe.grams_per_portion ? { serving_amount: String(recipe.grams_per_portion), serving_amount_unit: 'g' } : {}),
+          ...optional,
+          format: 'json',
+        },
+      },
+    }));
+    const foodId = normalizeResponse(data as { food_id?: { value?: number } }).food_id?.value;
+    if (foodId === undefined) {
+      throw new UnexpectedResponseError('The custom food was created but no food_id came back', 'Log the recipe with mode "ingredients".');
+    }
+    return foodId;
+  }
+
+  /** The serving a recipe's custom food is logged with. */
+  private async recipeFoodServing(foodId: number): Promise<{ food_id: number; serving_id: number; number_of_units: number }> {
+    const food = unwrap(await this.publicClient.GET('/food/v5', { params: { query: { food_id: foodId, format: 'json' } } }));
+    const created = parseResponse(schemas.GetFoodOutputSchema, food, 'food').food.servings?.serving[0];
+    if (!created) {
+      throw new UnexpectedResponseError(
+        `Custom food ${foodId} has no serving`,
+        `Log it with create_food_entry once get_food ${foodId} shows its serving.`,
+      );
+    }
+    return { food_id: foodId, serving_id: created.serving_id, number_of_units: created.number_of_units ?? 1 };
+  }
+
+  /** IDs of the diary entries on a date, to tell which ones a copy created. */
+  private async foodEntryIds(date: string | undefined, profile?: string): Promise<Set<number>> {
+    return new Set((await this.fetchFoodEntries(date, profile)).map((entry) => entry.food_entry_id));
+  }
+
+  /**
+   * Resolves a portion to `serving_id` + `number_of_units`. Passes them through when given,
+   * otherwise converts `amount`/`unit` using the food's servings from `/food/v5`
+   * (restricted to `serving_id` if one was chosen).
+   */
+  private async resolveServing(
+    foodId: number,
+    portion: { serving_id?: number; number_of_units?: number; amount?: number; unit?: string },
+  ): Promise<{ serving_id: number; number_of_units: number; conversion?: ServingConversion }> {
+    const { serving_id, number_of_units, amount, unit } = portion;
+    if (amount === undefined) {
+      if (unit !== undefined) {
+        throw new MissingParameterError('unit was given without amount', undefined, undefined, 'Pass amount together with unit.');
+      }
+      if (serving_id === undefined || number_of_units === undefined) {
+        throw new MissingParameterError(
+          'The portion is missing',
+          undefined,
+          undefined,
+          'Pass serving_id and number_of_units, or an amount with a unit (e.g. amount: 150, unit: "g").',
+        );
+      }
+      return { serving_id, number_of_units };
+    }
+    if (number_of_units !== undefined) {
+      throw new InvalidParameterError(
+        'Both number_of_units and amount were given',
+        undefined,
+        undefined,
+        'Pass either number_of_units (with serving_id) or amount/unit, not both.',
+      );
+    }
+    if (unit !== undefined && !normalizeUnit(unit)) {
+      throw new InvalidParameterError(`Unknown unit "${unit}"`, undefined, undefined, `Use one of: ${CANONICAL_UNITS.join(', ')}.`);
+    }
+
+    const data = unwrap(await this.publicClient.GET('/food/v5', {
+      params: { query: { food_id: foodId, format: 'json' } },
+    }));
+    const all = parseResponse(schemas.GetFoodOutputSchema, data, 'food').food.servings?.serving ?? [];
+    const servings = serving_id === undefined ? all : all.filter((s) => s.serving_id === serving_id);
+    const match = matchServing(servings, amount, unit);
+    if (!match) {
+      const available = all.map((s) => s.serving_description ?? s.serving_id).join('; ');
+      throw new InvalidParameterError(
+        `Cannot convert ${amount} ${unit ?? ''} for food ${foodId}`.trimEnd(),
+        undefined,
+        undefined,
+        available ? `Available servings: ${available}. Use one of their units, or serving_id + number_of_units.` : 'The food has no servings.',
+      );
+    }
+    return {
+      serving_id: match.serving.serving_id,
+      number_of_units: match.number_of_units,
+      conversion: {
+        amount,
+        ...(unit !== undefined ? { unit: normalizeUnit(unit) } : {}),
+        serving_id: match.serving.serving_id,
+        serving_description: match.serving.serving_description,
+        number_of_units: match.number_of_units,
+        match: match.match,
+      },
+    };
+  }
+
+  /** Finds a food for a parsed `log_food_text` item and converts its amount to a serving. */
+  private async resolveFoodText(item: ParsedFoodItem, meal: Meal): Promise<schemas.FoodTextItem> {
+    const base = { text: item.text, query: item.food, quantity: item.quantity, unit: item.unit, meal };
+    const data = unwrap(await this.publicClient.GET('/foods/search/v5', {
+      params: { query: { search_expression: item.food, max_results: FOOD_TEXT_CANDIDATES, format: 'json' } },
+    }));
+    const foods = parseResponse(schemas.SearchFoodsOutputSchema, data, 'food search').foods_search.results?.food ?? [];
+
+    // Search order is relevance order: take the first food whose servings fit the unit
+    const candidates = foods.map((food) => ({ food, serving: matchServing(food.servings?.serving ?? [], item.quantity, item.unit) }));
+    const best = candidates.find((c) => c.serving && c.serving.match !== 'default') ?? candidates.find((c) => c.serving);
+    if (!best?.serving) {
+      return {
+        ...base,
+        error: foods.length ? `No serving of "${item.food}" matches ${item.unit ?? 'a count'}` : `No food found for "${item.food}"`,
+      };
+    }
+
+    const { food, serving } = best;
+    return {
+      ...base,
+      food_id: food.food_id,
+      food_name: food.food_name,
+      brand_name: food.brand_name,
+      serving_id: serving.serving.serving_id,
+      serving_description: serving.serving.serving_description,
+      number_of_units: serving.number_of_units,
+      match: serving.match,
+      ...servingNutrition(serving.serving, serving.number_of_units),
+      alternatives: foods.filter((f) => f !== food).map((f) => ({ food_id: f.food_id, food_name: f.food_name })),
+    };
+  }
+
   // ── Profile API – Favorites ──
 
-  private registerFavoriteTools(): void {
-    this.server.registerTool(
+  private registerFavoriteTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'get_favorite_foods',
       {
         description: "Get the user's favorite foods. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.GetFavoriteFoodsInputSchema,
+        outputSchema: schemas.FoodListOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async () => {
-        const { data } = await this.profileClient.GET('/food/favorites/v2', {
+      async ({ profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/food/favorites/v2', {
           params: { query: { format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'delete_favorite_food',
       {
         description: "Remove a food from the user's favorites. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.DeleteFavoriteFoodInputSchema,
         annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.POST('/food/favorite/v1', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/food/favorite/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_most_eaten_foods',
       {
         description: "Get the user's most eaten foods, optionally filtered by meal. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.GetMostEatenFoodsInputSchema,
+        outputSchema: schemas.FoodListOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.GET('/food/most-eaten/v2', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/food/most-eaten/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_recently_eaten_foods',
       {
         description: "Get the user's recently eaten foods, optionally filtered by meal. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.GetRecentlyEatenFoodsInputSchema,
+        outputSchema: schemas.FoodListOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.GET('/food/recently-eaten/v2', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/food/recently-eaten/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_favorite_recipes',
       {
         description: "Get the user's favorite recipes. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.GetFavoriteRecipesInputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async () => {
-        const { data } = await this.profileClient.GET('/recipe/favorites/v2', {
+      async ({ profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/recipe/favorites/v2', {
           params: { query: { format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'add_favorite_recipe',
       {
         description: "Add a recipe to the user's favorites. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.AddFavoriteRecipeInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.POST('/recipe/favorites/v1', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/recipe/favorites/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'delete_favorite_recipe',
       {
         description: "Remove a recipe from the user's favorites. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.DeleteFavoriteRecipeInputSchema,
         annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.DELETE('/recipe/favorites/v1', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).DELETE('/recipe/favorites/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
@@ -628,123 +2124,238 @@ class FatSecretMcpServer {
 
   // ── Profile API – Saved Meals ──
 
-  private registerSavedMealTools(): void {
-    this.server.registerTool(
+  private registerSavedMealTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'get_saved_meals',
       {
         description: "Get the user's saved meals, optionally filtered by meal type. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.GetSavedMealsInputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.GET('/saved-meals/v2', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/saved-meals/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'create_saved_meal',
       {
         description: 'Create a new saved meal. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.CreateSavedMealInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
+        undo: async () => (result) =>
+          (resultIds(result)?.saved_meal_id ?? []).map((id) => ({ type: 'delete_saved_meal', saved_meal_id: Number(id) })),
       },
-      async (args) => {
-        const { data } = await this.profileClient.POST('/saved-meals/v1', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/saved-meals/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
+      'save_diary_meal_as_saved_meal',
+      {
+        description: "Create a saved meal from a meal logged in the diary: every entry of that date's meal becomes an item with the same food, serving and units. Requires profile auth (check_auth_status first).",
+        inputSchema: schemas.SaveDiaryMealAsSavedMealInputSchema,
+        annotations: { readOnlyHint: false, idempotentHint: false },
+        preview: async ({ date, meal, saved_meal_name, saved_meal_description, meals = meal, profile }) => ({
+          action: 'create',
+          saved_meal_name,
+          saved_meal_description,
+          meals,
+          food_entries: (await this.diaryMealEntries(date, meal, profile)).map(describeEntry),
+        }),
+        undo: async () => (result) =>
+          typeof result.saved_meal_id === 'number' ? [{ type: 'delete_saved_meal', saved_meal_id: result.saved_meal_id }] : [],
+      },
+      async ({ date, meal, saved_meal_name, saved_meal_description, meals = meal, profile }) => {
+        const entries = await this.diaryMealEntries(date, meal, profile);
+        const client = this.profileClientFor(profile);
+        const data = unwrap(await client.POST('/saved-meals/v1', {
+          params: { query: { saved_meal_name, saved_meal_description, meals, format: 'json' } },
+        }));
+        const savedMealId = normalizeResponse(data as { saved_meal_id?: { value?: number } }).saved_meal_id?.value;
+        if (savedMealId === undefined) {
+          throw new UnexpectedResponseError(
+            'The saved meal was created but no saved_meal_id came back',
+            'Find it with get_saved_meals and add the items with add_saved_meal_item.',
+          );
+        }
+
+        // One at a time, so the items keep the diary order
+        const items = [];
+        for (const entry of entries) {
+          const item = { food_entry_id: entry.food_entry_id, saved_meal_item_name: entry.food_entry_name ?? '' };
+          const { food_id, serving_id, number_of_units } = entry;
+          if (food_id === undefined || serving_id === undefined || number_of_units === undefined) {
+            items.push({ ...item, error: 'The entry has no food or serving to add' });
+            continue;
+          }
+          try {
+            const added = unwrap(await client.POST('/saved-meals/item/v1', {
+              params: {
+                query: {
+                  saved_meal_id: savedMealId,
+                  food_id,
+                  saved_meal_item_name: item.saved_meal_item_name,
+                  serving_id,
+                  number_of_units,
+                  format: 'json',
+                },
+              },
+            }));
+            const itemId = normalizeResponse(added as { saved_meal_item_id?: { value?: number } }).saved_meal_item_id?.value;
+            items.push({ ...item, saved_meal_item_id: itemId });
+          } catch (err) {
+            items.push({ ...item, error: err instanceof Error ? err.message : String(err) });
+          }
+        }
+
+        const failed = items.filter((item) => 'error' in item).length;
+        return text({
+          saved_meal_id: savedMealId,
+          saved_meal_name,
+          meals,
+          added: items.length - failed,
+          failed,
+          items,
+        });
+      },
+    );
+
+    this.registerTool(
+      server,
       'edit_saved_meal',
       {
         description: 'Edit a saved meal name, description, or associated meals. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.EditSavedMealInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.PUT('/saved-meals/v1', {
+        undo: async ({ saved_meal_id, profile }) => {
+          const { saved_meal } = await this.fetchSavedMeal(saved_meal_id, profile);
+          const { saved_meal_name, saved_meal_description, meals } = saved_meal;
+          return () => [{ type: 'edit_saved_meal', saved_meal_id, saved_meal_name, saved_meal_description, meals }];
+        },
+      },
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).PUT('/saved-meals/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'delete_saved_meal',
       {
         description: 'Delete a saved meal. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.DeleteSavedMealInputSchema,
         annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.DELETE('/saved-meals/v1', {
+        preview: async ({ saved_meal_id, profile }) => ({
+          action: 'delete',
+          ...(await this.fetchSavedMeal(saved_meal_id, profile)),
+        }),
+        undo: async ({ saved_meal_id, profile }) => {
+          const { saved_meal, saved_meal_items } = await this.fetchSavedMeal(saved_meal_id, profile);
+          const { saved_meal_name = '', saved_meal_description, meals } = saved_meal;
+          const items = saved_meal_items.map(savedMealItemState).filter((item) => item !== undefined);
+          return () => [{ type: 'create_saved_meal', saved_meal_name, saved_meal_description, meals, items }];
+        },
+      },
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).DELETE('/saved-meals/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_saved_meal_items',
       {
         description: 'Get all food items in a saved meal. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.GetSavedMealItemsInputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async (args) => {
-        const { data } = await this.profileClient.GET('/saved-meals/item/v2', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/saved-meals/item/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'add_saved_meal_item',
       {
-        description: 'Add a food item to a saved meal. Requires profile auth (check_auth_status first).',
+        description: 'Add a food item to a saved meal, as serving_id + number_of_units or as an amount/unit (e.g. 150 g). Requires profile auth (check_auth_status first).',
         inputSchema: schemas.AddSavedMealItemInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.POST('/saved-meals/item/v1', {
-          params: { query: { ...args, format: 'json' } },
-        });
-        return text(data);
+        undo: async () => (result) =>
+          (resultIds(result)?.saved_meal_item_id ?? []).map((id) => ({
+            type: 'delete_saved_meal_item',
+            saved_meal_item_id: Number(id),
+          })),
+      },
+      async ({ profile, serving_id, number_of_units, amount, unit, ...args }) => {
+        const serving = await this.resolveServing(args.food_id, { serving_id, number_of_units, amount, unit });
+        const data = unwrap(await this.profileClientFor(profile).POST('/saved-meals/item/v1', {
+          params: {
+            query: { ...args, serving_id: serving.serving_id, number_of_units: serving.number_of_units, format: 'json' },
+          },
+        }));
+        return text(withConversion(data, serving.conversion));
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'edit_saved_meal_item',
       {
         description: 'Edit a food item in a saved meal (name or units). Cannot change serving_id. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.EditSavedMealItemInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.PUT('/saved-meals/item/v1', {
+        undo: async ({ saved_meal_item_id, profile }) => {
+          const { item } = await this.findSavedMealItem(saved_meal_item_id, profile);
+          const { saved_meal_item_name, number_of_units } = item;
+          return () => [{ type: 'edit_saved_meal_item', saved_meal_item_id, saved_meal_item_name, number_of_units }];
+        },
+      },
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).PUT('/saved-meals/item/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'delete_saved_meal_item',
       {
         description: 'Remove a food item from a saved meal. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.DeleteSavedMealItemInputSchema,
         annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
-      },
-      async (args) => {
-        const { data } = await this.profileClient.DELETE('/saved-meals/item/v1', {
+        undo: async ({ saved_meal_item_id, profile }) => {
+          const { saved_meal_id, item } = await this.findSavedMealItem(saved_meal_item_id, profile);
+          const state = savedMealItemState(item);
+          return () => (state ? [{ type: 'create_saved_meal_item', saved_meal_id, ...state }] : []);
+        },
+      },
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).DELETE('/saved-meals/item/v1', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
@@ -752,33 +2363,36 @@ class FatSecretMcpServer {
 
   // ── Profile API – Weight ──
 
-  private registerWeightTools(): void {
-    this.server.registerTool(
+  private registerWeightTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'update_weight',
       {
         description: "Record the user's weight for a date. First weigh-in requires goal_weight_kg and current_height_cm. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.UpdateWeightInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
       },
-      async ({ date, ...rest }) => {
-        const { data } = await this.profileClient.POST('/weight/v1', {
+      async ({ date, profile, ...rest }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/weight/v1', {
           params: { query: { ...rest, date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_weight_month',
       {
         description: "Get the user's weight entries for a month. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.GetWeightMonthInputSchema,
+        outputSchema: schemas.GetWeightMonthOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async ({ date }) => {
-        const { data } = await this.profileClient.GET('/weight/month/v2', {
+      async ({ date, profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/weight/month/v2', {
           params: { query: { date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
@@ -786,63 +2400,69 @@ class FatSecretMcpServer {
 
   // ── Profile API – Exercise ──
 
-  private registerExerciseTools(): void {
-    this.server.registerTool(
+  private registerExerciseTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'get_exercises',
       {
         description: 'Get the full list of supported exercise types and their IDs. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.GetExercisesInputSchema,
+        outputSchema: schemas.GetExercisesOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async () => {
-        const { data } = await this.profileClient.GET('/exercises/v2', {
+      async ({ profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/exercises/v2', {
           params: { query: { format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'edit_exercise_entries',
       {
         description: 'Shift exercise time between activities for a date. Moves minutes from one exercise to another. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.EditExerciseEntriesInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
       },
-      async ({ date, ...rest }) => {
-        const { data } = await this.profileClient.PUT('/exercise-entries/v1', {
+      async ({ date, profile, ...rest }) => {
+        const data = unwrap(await this.profileClientFor(profile).PUT('/exercise-entries/v1', {
           params: { query: { ...rest, date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'get_exercise_entries_month',
       {
         description: 'Get daily calories expended from exercise for a month. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.GetExerciseEntriesMonthInputSchema,
+        outputSchema: schemas.GetExerciseEntriesMonthOutputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async ({ date }) => {
-        const { data } = await this.profileClient.GET('/exercise-entries/month/v2', {
+      async ({ date, profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/exercise-entries/month/v2', {
           params: { query: { date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'save_exercise_template',
       {
         description: "Save the current day's exercise entries as a template for specified days of the week. Requires profile auth (check_auth_status first).",
         inputSchema: schemas.SaveExerciseTemplateInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
       },
-      async ({ date, ...rest }) => {
-        const { data } = await this.profileClient.POST('/exercise-entries/day/v1', {
+      async ({ date, profile, ...rest }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/exercise-entries/day/v1', {
           params: { query: { ...rest, date: optionalDateToDays(date), format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
@@ -850,42 +2470,245 @@ class FatSecretMcpServer {
 
   // ── Profile API – Profile & Custom Food ──
 
-  private registerProfileTools(): void {
-    this.server.registerTool(
+  private registerProfileTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'get_profile',
       {
         description: 'Get profile status information for the authenticated user. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.GetProfileInputSchema,
         annotations: { readOnlyHint: true, idempotentHint: true },
       },
-      async () => {
-        const { data } = await this.profileClient.GET('/profile/v1', {
+      async ({ profile }) => {
+        const data = unwrap(await this.profileClientFor(profile).GET('/profile/v1', {
           params: { query: { format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'create_food',
       {
         description: 'Create a custom food with nutrition info. Premier exclusive. Requires profile auth (check_auth_status first).',
         inputSchema: schemas.CreateFoodInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: false },
       },
-      async (args) => {
-        const { data } = await this.profileClient.POST('/food/v2', {
+      async ({ profile, ...args }) => {
+        const data = unwrap(await this.profileClientFor(profile).POST('/food/v2', {
           params: { query: { ...args, format: 'json' } },
-        });
+        }));
         return text(data);
       },
     );
   }
 
+  // ── Profile API – Reports ──
+
+  private registerReportTools(server: McpServer): void {
+    this.registerTool(
+      server,
+      'get_nutrition_report',
+      {
+        description: `Get a nutrition report for a date range (up to ${MAX_REPORT_DAYS} days): food, exercise and weight merged per day, with totals, daily averages, lowest/highest calorie days, logged-day counts and net calories (food minus exercise). Requires profile auth (check_auth_status first).`,
+        inputSchema: schemas.GetNutritionReportInputSchema,
+        outputSchema: schemas.GetNutritionReportOutputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true },
+      },
+      async ({ start_date, end_date = today(), profile }) => {
+        const dates = datesInRange(start_date, end_date);
+        if (!dates.length || dates.length > MAX_REPORT_DAYS) {
+          throw new InvalidParameterError(
+            `Invalid date range ${start_date} to ${end_date}`,
+            undefined,
+            undefined,
+            `Use YYYY-MM-DD dates with start_date on or before end_date, at most ${MAX_REPORT_DAYS} days apart.`,
+          );
+        }
+
+        const client = this.profileClientFor(profile);
+        const months = monthsInRange(start_date, end_date).map(dateToDays);
+        const [food, exercise, weight] = await Promise.all([
+          Promise.all(months.map(async (date) => {
+            const data = unwrap(await client.GET('/food-entries/month/v2', { params: { query: { date, format: 'json' } } }));
+            return parseResponse(schemas.GetFoodEntriesMonthOutputSchema, data, 'food entries month').month?.day ?? [];
+          })),
+          Promise.all(months.map(async (date) => {
+            const data = unwrap(await client.GET('/exercise-entries/month/v2', { params: { query: { date, format: 'json' } } }));
+            return parseResponse(schemas.GetExerciseEntriesMonthOutputSchema, data, 'exercise entries month').month?.day ?? [];
+          })),
+          Promise.all(months.map(async (date) => {
+            const data = unwrap(await client.GET('/weight/month/v2', { params: { query: { date, format: 'json' } } }));
+            return parseResponse(schemas.GetWeightMonthOutputSchema, data, 'weight month').month?.day ?? [];
+          })),
+        ]);
+
+        return text(nutritionReport(dates, food.flat(), exercise.flat(), weight.flat()));
+      },
+    );
+  }
+
+  // ── Nutrition Goals ──
+
+  private registerGoalTools(server: McpServer): void {
+    this.registerTool(
+      server,
+      'set_goals',
+      {
+        description: 'Set daily nutrition goals for a profile: calorie budget, macro targets in grams or as % of calories, fiber minimum, sodium and sugar caps, and per-meal calorie budgets. Only the given goals change; use clear to remove some. Stored locally in goals.json.',
+        inputSchema: schemas.SetGoalsInputSchema,
+        outputSchema: schemas.GetGoalsOutputSchema,
+        annotations: { readOnlyHint: false, idempotentHint: true },
+      },
+      async ({ clear, profile, ...updates }) => {
+        const name = profile || this.activeProfile;
+        const file = loadGoalsFile(this.getGoalsPath());
+        const goals = mergeGoals(file[name] ?? {}, updates, clear);
+        saveGoalsFile(this.getGoalsPath(), { ...file, [name]: goals });
+        return text({ profile: name, goals, macro_targets_g: macroTargets(goals) });
+      },
+    );
+
+    this.registerTool(
+      server,
+      'get_goals',
+      {
+        description: 'Get the daily nutrition goals stored for a profile, with macro targets converted to grams.',
+        inputSchema: schemas.GetGoalsInputSchema,
+        outputSchema: schemas.GetGoalsOutputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true },
+      },
+      async ({ profile }) => {
+        const name = profile || this.activeProfile;
+        const goals = loadGoalsFile(this.getGoalsPath())[name] ?? {};
+        return text({ profile: name, goals, macro_targets_g: macroTargets(goals) });
+      },
+    );
+
+    this.registerTool(
+      server,
+      'check_goals',
+      {
+        description: "Compare a day's or week's food diary totals against the stored goals and report the remaining budget for each goal and meal. Weekly budgets are the daily goals times 7. Requires profile auth (check_auth_status first).",
+        inputSchema: schemas.CheckGoalsInputSchema,
+        outputSchema: schemas.CheckGoalsOutputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true },
+      },
+      async ({ date = today(), period = 'day', profile }) => {
+        const name = profile || this.activeProfile;
+        const goals = loadGoalsFile(this.getGoalsPath())[name];
+        if (!goals || !Object.keys(goals).length) {
+          throw new FatSecretError(`No nutrition goals set for profile "${name}".`, 'Use set_goals to define them first.');
+        }
+
+        const [start, end] = period === 'week' ? weekRange(date) : [date, date];
+        const dates = datesInRange(start, end);
+        const entries = (await Promise.all(dates.map((d) => this.fetchFoodEntries(d, name)))).flat();
+        return text({
+          profile: name,
+          period,
+          start_date: start,
+          end_date: end,
+          day_count: dates.length,
+          ...checkGoals(goals, summarizeByMeal(entries), dates.length),
+        });
+      },
+    );
+  }
+
+  // ── Cache ──
+
+  private registerCacheTools(server: McpServer): void {
+    this.registerTool(
+      server,
+      'clear_cache',
+      {
+        description: 'Clear the local cache of food, recipe, category, brand and recipe type lookups, either entirely or for one tool. Use when cached data looks outdated.',
+        inputSchema: schemas.ClearCacheInputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      },
+      async ({ tool }) => {
+        if (!this.cache) {
+          return text({ message: 'The cache is disabled (FATSECRET_CACHE=off).' });
+        }
+        const { removed, bytes } = await this.cache.clear(tool ? CACHED_TOOL_PATHS[tool] : undefined);
+        return text({
+          message: `Removed ${removed} cached response${removed === 1 ? '' : 's'}${tool ? ` for ${tool}` : ''}.`,
+          removed_entries: removed,
+          freed_bytes: bytes,
+          cache: await this.cache.stats(),
+        });
+      },
+    );
+  }
+
+  // ── Undo ──
+
+  private registerUndoTools(server: McpServer): void {
+    this.registerTool(
+      server,
+      'undo_last_change',
+      {
+        description: 'Revert the most recent diary and saved meal changes made through this server (create, edit, delete and copy of food entries, saved meals and saved meal items), newest first. Deleted items are re-created with new IDs. Custom foods that log_recipe created stay, as FatSecret cannot delete them (kept_custom_food_ids). Requires profile auth (check_auth_status first).',
+        inputSchema: schemas.UndoLastChangeInputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+        preview: async ({ count = 1, profile }) => ({
+          action: 'revert',
+          changes: (await this.undoJournal.latest(count, profile || this.activeProfile)).map(undoSummary),
+        }),
+      },
+      async ({ count = 1, profile }) => {
+        const records = await this.undoJournal.latest(count, profile || this.activeProfile);
+        if (!records.length) {
+          return text({ message: 'Nothing to undo.', undone: [] });
+        }
+
+        const undone = [];
+        for (const record of records) {
+          const summary = undoSummary(record);
+          try {
+            for (const action of record.actions) await this.revert(action, record.profile);
+          } catch (err) {
+            return text({
+              message: `Undid ${undone.length} of ${records.length} change(s); stopped at ${record.tool}.`,
+              undone,
+              failed: { ...summary, error: err instanceof Error ? err.message : String(err) },
+            });
+          }
+          await this.undoJournal.remove(record.id);
+          undone.push(summary);
+        }
+        return text({ message: `Undid ${undone.length} change(s).`, undone });
+      },
+    );
+  }
+
+  // ── Audit Log ──
+
+  private registerAuditTools(server: McpServer): void {
+    this.registerTool(
+      server,
+      'get_audit_log',
+      {
+        description: 'List recent changes this server made: diary entries, saved meals, weight, credentials and other writes, with their arguments, resulting IDs and outcome. Newest first; filter by date range, tool or profile.',
+        inputSchema: schemas.GetAuditLogInputSchema,
+        outputSchema: schemas.GetAuditLogOutputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true },
+        dates: ({ start_date, end_date }) => ({ start_date, end_date }),
+      },
+      async ({ start_date, end_date, tool, profile, limit = 50 }) => {
+        const entries = await this.auditLog.query({ start_date, end_date, tool, profile, limit });
+        return text({ start_date: start_date ?? null, end_date: end_date ?? null, count: entries.length, entries });
+      },
+    );
+  }
+
   // ── Auth Tools ──
 
-  private registerAuthTools(): void {
-    this.server.registerTool(
+  private registerAuthTools(server: McpServer): void {
+    this.registerTool(
+      server,
       'check_auth_status',
       {
         description: 'Check if API credentials and profile authentication are configured. Call this first to understand what setup is needed.',
@@ -894,12 +2717,14 @@ class FatSecretMcpServer {
       },
       async () => {
         const hasCredentials = this.hasApiCredentials();
-        const hasTokens = !!(this.oauth1Credentials.accessToken && this.oauth1Credentials.accessTokenSecret);
+        const hasTokens = !!this.profiles[this.activeProfile];
 
         if (!hasCredentials) {
           return text({
             credentials_configured: false,
             profile_authenticated: false,
+            active_profile: this.activeProfile,
+            profiles: this.profileStatus(),
             config_path: this.getConfigPath(),
             message: 'API credentials are not configured. Use setup_credentials to provide your FatSecret API keys. ' +
               'Get them at https://platform.fatsecret.com/ → My Account → API Keys. ' +
@@ -910,20 +2735,32 @@ class FatSecretMcpServer {
         return text({
           credentials_configured: true,
           profile_authenticated: hasTokens,
+          active_profile: this.activeProfile,
+          profiles: this.profileStatus(),
           config_path: this.getConfigPath(),
+          timezone: getTimeZone(),
+          today: today(),
           message: hasTokens
-            ? 'Fully configured. API credentials and profile authentication are ready. All tools are available.'
-            : 'API credentials configured (public tools work). Profile not authenticated — use start_auth to authorize profile access.',
+            ? `Fully configured. API credentials and profile authentication for "${this.activeProfile}" are ready. All tools are available.`
+            : `API credentials configured (public tools work). Profile "${this.activeProfile}" not authenticated — use start_auth to authorize profile access.`,
         });
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'setup_credentials',
       {
         description: 'Configure FatSecret API credentials. Get them at https://platform.fatsecret.com/ → My Account → API Keys. Saves to persistent config file.',
         inputSchema: schemas.SetupCredentialsInputSchema,
         annotations: { readOnlyHint: false, idempotentHint: true },
+        // Never echo the secrets themselves
+        preview: async ({ client_id }) => ({
+          action: this.hasApiCredentials() ? 'replace credentials' : 'save credentials',
+          client_id,
+          config_path: this.getConfigPath(),
+          profiles_signed_out: Object.keys(this.profiles),
+        }),
       },
       async ({ client_id, client_secret, consumer_secret }) => {
         this.clientId = client_id;
@@ -935,14 +2772,14 @@ class FatSecretMcpServer {
         this.oauth2Token = null;
         this.oauth2TokenExpiry = 0;
 
-        // Clear stale OAuth tokens when credentials change
-        this.oauth1Credentials.accessToken = undefined;
-        this.oauth1Credentials.accessTokenSecret = undefined;
+        // Clear stale OAuth tokens of every profile when credentials change
+        this.profiles = {};
 
         this.saveConfig({
           clientId: client_id,
           clientSecret: client_secret,
           consumerSecret: consumer_secret,
+          profiles: undefined,
           accessToken: undefined,
           accessTokenSecret: undefined,
         });
@@ -955,29 +2792,73 @@ class FatSecretMcpServer {
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'start_auth',
       {
-        description: 'Start the OAuth 1.0 authorization flow for profile access. Returns an authorization URL the user must visit. Requires API credentials (setup_credentials first).',
+        description: 'Start the OAuth 1.0 authorization flow for profile access, optionally for a named profile. Returns an authorization URL the user must visit. Requires API credentials (setup_credentials first).',
         inputSchema: schemas.StartAuthInputSchema,
-        annotations: { readOnlyHint: true, idempotentHint: false },
+        annotations: { readOnlyHint: false, idempotentHint: false },
       },
-      async () => {
+      async ({ profile, mode }) => {
         this.ensureApiCredentials();
+        this.oauthCallbackServer?.close();
+        this.oauthCallbackServer = null;
+
+        // Loopback callback unless PIN mode was requested or the port can't be bound
+        if (mode !== 'pin') {
+          try {
+            this.oauthCallbackServer = await startOAuthCallbackServer({
+              port: Number(process.env.FATSECRET_OAUTH_CALLBACK_PORT) || 0,
+              timeoutMs: OAUTH_CALLBACK_TIMEOUT_MS,
+              onCallback: async (oauthToken, verifier) => {
+                if (oauthToken !== this.pendingOAuth?.token) {
+                  throw new Error('This authorization does not match the pending start_auth request.');
+                }
+                await this.finishAuth(verifier);
+              },
+            });
+          } catch (err) {
+            console.error('OAuth callback listener unavailable, falling back to PIN mode:', err);
+          }
+        }
+
         // Use only consumer key/secret for request token (no access tokens)
-        const result = await requestToken({
-          consumerKey: this.oauth1Credentials.consumerKey,
-          consumerSecret: this.oauth1Credentials.consumerSecret,
+        const result = await requestToken(
+          {
+            consumerKey: this.oauth1Credentials.consumerKey,
+            consumerSecret: this.oauth1Credentials.consumerSecret,
+          },
+          this.oauthCallbackServer?.callbackUrl,
+        ).catch((err: unknown) => {
+          this.oauthCallbackServer?.close();
+          this.oauthCallbackServer = null;
+          throw err;
         });
-        this.pendingOAuth = { token: result.oauthToken, secret: result.oauthTokenSecret };
+        const targetProfile = profile || this.activeProfile;
+        this.pendingOAuth = { token: result.oauthToken, secret: result.oauthTokenSecret, profile: targetProfile };
+
+        if (this.oauthCallbackServer) {
+          return text({
+            message: 'Visit the URL below to authorize the app. Authorization completes automatically once the browser ' +
+              'returns to the local callback page — then call check_auth_status. If the redirect fails, use complete_auth with the verifier code.',
+            authorization_url: result.authorizationUrl,
+            callback_url: this.oauthCallbackServer.callbackUrl,
+            mode: 'callback',
+            profile: targetProfile,
+          });
+        }
         return text({
           message: 'Visit the URL below to authorize the app, then use complete_auth with the verifier code.',
           authorization_url: result.authorizationUrl,
+          mode: 'pin',
+          profile: targetProfile,
         });
       },
     );
 
-    this.server.registerTool(
+    this.registerTool(
+      server,
       'complete_auth',
       {
         description: 'Complete the OAuth 1.0 flow with the verifier code from the authorization page.',
@@ -985,36 +2866,186 @@ class FatSecretMcpServer {
         annotations: { readOnlyHint: false, idempotentHint: false },
       },
       async ({ verifier }) => {
-        if (!this.pendingOAuth) {
-          throw new Error('No pending OAuth flow. Call start_auth first.');
-        }
-        const result = await accessToken(
-          this.oauth1Credentials,
-          this.pendingOAuth.token,
-          this.pendingOAuth.secret,
-          verifier,
-        );
-        this.saveConfig({ accessToken: result.accessToken, accessTokenSecret: result.accessTokenSecret });
-        this.oauth1Credentials.accessToken = result.accessToken;
-        this.oauth1Credentials.accessTokenSecret = result.accessTokenSecret;
-        this.pendingOAuth = null;
+        const profile = await this.finishAuth(verifier);
         return text({
-          message: 'Authentication successful! Profile tools are now available.',
+          message: `Authentication successful for profile "${profile}"! Profile tools are now available.`,
+          profile,
+          active_profile: this.activeProfile,
           config_path: this.getConfigPath(),
         });
       },
     );
   }
 
+  /** Exchanges the verifier for access tokens and stores them under the pending profile. */
+  private async finishAuth(verifier: string): Promise<string> {
+    if (!this.pendingOAuth) {
+      throw new Error('No pending OAuth flow. Call start_auth first (or check_auth_status if the browser callback already completed it).');
+    }
+    const result = await accessToken(
+      this.oauth1Credentials,
+      this.pendingOAuth.token,
+      this.pendingOAuth.secret,
+      verifier,
+    );
+    const { profile } = this.pendingOAuth;
+    this.profiles[profile] = { accessToken: result.accessToken, accessTokenSecret: result.accessTokenSecret };
+    // First authorized account becomes active so profile tools work right away
+    if (!this.profiles[this.activeProfile]) this.activeProfile = profile;
+    this.saveProfiles();
+    this.pendingOAuth = null;
+    this.oauthCallbackServer?.close();
+    this.oauthCallbackServer = null;
+    console.error(`OAuth 1.0 authorization completed for profile "${profile}"`);
+    return profile;
+  }
+
+  // ── Account Profiles ──
+
+  private registerAccountProfileTools(server: McpServer): void {
+    this.registerTool(
+      server,
+      'list_profiles',
+      {
+        description: 'List the FatSecret account profiles stored in the config, which one is active, and whether each is authorized.',
+        inputSchema: schemas.ListProfilesInputSchema,
+        annotations: { readOnlyHint: true, idempotentHint: true },
+      },
+      async () => {
+        return text({ active_profile: this.activeProfile, profiles: this.profileStatus() });
+      },
+    );
+
+    this.registerTool(
+      server,
+      'switch_profile',
+      {
+        description: 'Make another authorized account profile the default for profile tools. Use start_auth with a profile name to add a new one.',
+        inputSchema: schemas.SwitchProfileInputSchema,
+        annotations: { readOnlyHint: false, idempotentHint: true },
+      },
+      async ({ profile }) => {
+        if (!this.profiles[profile]) {
+          throw new ProfileNotAuthenticatedError(
+            `Profile "${profile}" does not exist or is not authorized.`,
+            `Use list_profiles to see available profiles, or start_auth with profile "${profile}" to authorize it.`,
+          );
+        }
+        this.activeProfile = profile;
+        this.saveProfiles();
+        return text({
+          message: `Switched to profile "${profile}".`,
+          active_profile: this.activeProfile,
+          profiles: this.profileStatus(),
+        });
+      },
+    );
+
+    this.registerTool(
+      server,
+      'remove_profile',
+      {
+        description: 'Remove an account profile and delete its saved OAuth tokens, nutrition goals and remembered recipe foods. If it was active, another authorized profile becomes active.',
+        inputSchema: schemas.RemoveProfileInputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+        preview: async ({ profile }) => ({
+          action: 'delete',
+          profile,
+          authenticated: !!this.profiles[profile],
+          active: this.activeProfile === profile,
+          goals: !!loadGoalsFile(this.getGoalsPath())[profile],
+        }),
+      },
+      async ({ profile }) => {
+        const existed = !!this.profiles[profile];
+        delete this.profiles[profile];
+        this.profileClients.delete(profile);
+        const goals = loadGoalsFile(this.getGoalsPath());
+        if (goals[profile]) {
+          delete goals[profile];
+          saveGoalsFile(this.getGoalsPath(), goals);
+        }
+        const recipeFoods = loadRecipeFoodsFile(this.getRecipeFoodsPath());
+        if (recipeFoods[profile]) {
+          delete recipeFoods[profile];
+          saveRecipeFoodsFile(this.getRecipeFoodsPath(), recipeFoods);
+        }
+        if (this.activeProfile === profile) {
+          this.activeProfile = Object.keys(this.profiles).sort()[0] ?? DEFAULT_PROFILE;
+        }
+        this.saveProfiles();
+        return text({
+          message: existed ? `Removed profile "${profile}".` : `Profile "${profile}" did not exist.`,
+          active_profile: this.activeProfile,
+          profiles: this.profileStatus(),
+        });
+      },
+    );
+  }
+
   // ── Run ──
 
-  async run(): Promise<void> {
+  async run(options: RunOptions): Promise<void> {
+    if (options.transport === 'http') {
+      await startHttpServer(() => this.createServer(), {
+        host: options.host,
+        port: options.port,
+        version,
+        allowedHosts: options.allowedHosts,
+      });
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error('FatSecret MCP server running on stdio');
   }
 }
 
+// ── CLI ──
+
+interface RunOptions {
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+  allowedHosts: string[];
+}
+
+/** Reads transport options from CLI flags, falling back to env vars, then defaults. */
+function parseRunOptions(): RunOptions {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'allowed-hosts': { type: 'string' },
+    },
+    strict: false,
+  });
+  const flag = (name: string) => (typeof values[name] === 'string' ? (values[name] as string) : undefined);
+
+  const transport = flag('transport') || process.env.FATSECRET_MCP_TRANSPORT || 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}". Use "stdio" or "http".`);
+  }
+
+  const portValue = flag('port') || process.env.FATSECRET_MCP_PORT || '3000';
+  const port = Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portValue}".`);
+  }
+
+  return {
+    transport,
+    host: flag('host') || process.env.FATSECRET_MCP_HOST || '127.0.0.1',
+    port,
+    allowedHosts: (flag('allowed-hosts') || process.env.FATSECRET_MCP_ALLOWED_HOSTS || '')
+      .split(',')
+      .map((h) => h.trim())
+      .filter(Boolean),
+  };
+}
+
 process.on('uncaughtException', (err) => {
   console.error('Uncaught exception:', err);
 });
@@ -1023,4 +3054,9 @@ process.on('unhandledRejection', (err) => {
 });
 
 const server = new FatSecretMcpServer();
-server.run().catch(console.error);
+Promise.resolve()
+  .then(() => server.run(parseRunOptions()))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
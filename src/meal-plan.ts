@@ -0,0 +1,221 @@
+import { KCAL_PER_GRAM, macroPercentages, round, type Meal } from './nutrition.js';
+
+/** Recipe type searched for each meal (see get_recipe_types). */
+export const MEAL_RECIPE_TYPES: Record<Meal, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Main Dish',
+  other: 'Snack',
+};
+
+// Share of the daily calories for meals without a budget of their own
+const MEAL_SHARES: Record<Meal, number> = { breakfast: 0.25, lunch: 0.3, dinner: 0.35, other: 0.1 };
+
+// Servings per meal the planner may pick, most natural first (ties go to the earlier one)
+const SERVING_STEPS = [1, 1.5, 2, 0.5];
+
+// Rounds of single-meal swaps tried after the greedy pick of a day
+const IMPROVEMENT_ROUNDS = 3;
+
+// Percentage points a candidate's macro split may differ from the targets in the search
+const MACRO_SPREAD_PCT = 10;
+
+const MACROS = ['protein', 'carbohydrate', 'fat'] as const;
+const PERCENTAGE_FILTERS = { protein: 'protein_percentage', carbohydrate: 'carb_percentage', fat: 'fat_percentage' } as const;
+type PercentageFilter = (typeof PERCENTAGE_FILTERS)[(typeof MACROS)[number]];
+
+export interface PlanTargets {
+  calories: number;
+  protein?: number;
+  carbohydrate?: number;
+  fat?: number;
+}
+
+/** A candidate recipe with its nutrition per serving. */
+export interface PlanRecipe {
+  recipe_id: number;
+  recipe_name: string;
+  calories: number;
+  protein: number;
+  carbohydrate: number;
+  fat: number;
+}
+
+export interface PlannedMeal {
+  meal: Meal;
+  recipe: PlanRecipe;
+  servings: number;
+}
+
+type Totals = Required<PlanTargets>;
+
+/**
+ * Calorie budget per planned meal: explicit per-meal budgets (from the stored goals) are kept,
+ * and whatever is left of the daily calories is split over the other meals by their usual share.
+ */
+export function mealBudgets(calories: number, meals: Meal[], mealCalories: Partial<Record<Meal, number>> = {}) {
+  const fixed = meals.reduce((sum, meal) => sum + (mealCalories[meal] ?? 0), 0);
+  const open = meals.filter((meal) => mealCalories[meal] === undefined);
+  const shares = open.reduce((sum, meal) => sum + MEAL_SHARES[meal], 0);
+  const left = Math.max(0, calories - fixed);
+  return meals.map((meal) => ({
+    meal,
+    calories: round(mealCalories[meal] ?? (left * MEAL_SHARES[meal]) / shares, 0),
+  }));
+}
+
+/**
+ * `/recipes/search/v3` filters for recipes that can fill a meal of `calories` kcal at one of the
+ * serving counts the planner picks, optionally with a macro split close to the targets.
+ */
+export function recipeSearchFilters(meal: Meal, calories: number, targets: PlanTargets, withMacros: boolean) {
+  const filters: { recipe_types: string } & Partial<Record<'calories.from' | 'calories.to' | `${PercentageFilter}.${'from' | 'to'}`, number>> = {
+    recipe_types: MEAL_RECIPE_TYPES[meal],
+    'calories.from': round(calories / Math.max(...SERVING_STEPS), 0),
+    'calories.to': round(calories / Math.min(...SERVING_STEPS), 0),
+  };
+  if (!withMacros) return filters;
+  for (const macro of MACROS) {
+    const grams = targets[macro];
+    if (!grams) continue;
+    const pct = ((grams * KCAL_PER_GRAM[macro]) / targets.calories) * 100;
+    filters[`${PERCENTAGE_FILTERS[macro]}.from`] = Math.max(0, round(pct - MACRO_SPREAD_PCT, 0));
+    filters[`${PERCENTAGE_FILTERS[macro]}.to`] = Math.min(100, round(pct + MACRO_SPREAD_PCT, 0));
+  }
+  return filters;
+}
+
+function totalsOf(meals: PlannedMeal[]): Totals {
+  const totals: Totals = { calories: 0, protein: 0, carbohydrate: 0, fat: 0 };
+  for (const { recipe, servings } of meals) {
+    totals.calories += recipe.calories * servings;
+    for (const macro of MACROS) totals[macro] += recipe[macro] * servings;
+  }
+  return totals;
+}
+
+/** Sum of relative misses against each target; 0 is a perfect fit. */
+function deviation(totals: Totals, targets: PlanTargets): number {
+  let score = Math.abs(totals.calories - targets.calories) / targets.calories;
+  for (const macro of MACROS) {
+    const target = targets[macro];
+    if (target) score += Math.abs(totals[macro] - target) / target;
+  }
+  return score;
+}
+
+function scaleTargets(targets: PlanTargets, factor: number): PlanTargets {
+  return {
+    calories: targets.calories * factor,
+    protein: targets.protein && targets.protein * factor,
+    carbohydrate: targets.carbohydrate && targets.carbohydrate * factor,
+    fat: targets.fat && targets.fat * factor,
+  };
+}
+
+/** The candidate and serving count that best fits `fit` (lower is better). */
+function bestPick(meal: Meal, candidates: PlanRecipe[], fit: (pick: PlannedMeal) => number): PlannedMeal | undefined {
+  let best: PlannedMeal | undefined;
+  let bestScore = Infinity;
+  for (const recipe of candidates) {
+    for (const servings of SERVING_STEPS) {
+      const pick = { meal, recipe, servings };
+      const score = fit(pick);
+      if (score < bestScore) {
+        best = pick;
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Picks a recipe and serving count for every meal of every day. Each meal is first matched to
+ * its share of the targets, then single meals are swapped while that brings the day closer.
+ * Recipes are not repeated while unused candidates remain; `repeats` counts the times one was.
+ */
+export function planMeals(options: {
+  days: number;
+  targets: PlanTargets;
+  budgets: { meal: Meal; calories: number }[];
+  candidates: Partial<Record<Meal, PlanRecipe[]>>;
+}): { days: PlannedMeal[][]; repeats: number } {
+  const { targets, budgets } = options;
+  const used = new Set<number>();
+  const plan: PlannedMeal[][] = [];
+  let repeats = 0;
+
+  for (let day = 0; day < options.days; day++) {
+    const picks: PlannedMeal[] = [];
+    const inDay = (id: number, except?: number) =>
+      picks.some((pick, i) => i !== except && pick.recipe.recipe_id === id);
+    const choices = (meal: Meal, slot?: number) => {
+      const all = (options.candidates[meal] ?? []).filter((recipe) => !inDay(recipe.recipe_id, slot));
+      const fresh = all.filter((recipe) => !used.has(recipe.recipe_id));
+      return fresh.length > 0 ? fresh : all;
+    };
+
+    for (const budget of budgets) {
+      const slotTargets = scaleTargets(targets, budget.calories / targets.calories);
+      const pick = bestPick(budget.meal, choices(budget.meal), (p) => deviation(totalsOf([p]), slotTargets));
+      if (pick) picks.push(pick);
+    }
+
+    for (let pass = 0; pass < IMPROVEMENT_ROUNDS; pass++) {
+      let improved = false;
+      for (let slot = 0; slot < picks.length; slot++) {
+        const withPick = (pick: PlannedMeal) => picks.map((p, i) => (i === slot ? pick : p));
+        const current = deviation(totalsOf(picks), targets);
+        const pick = bestPick(picks[slot].meal, choices(picks[slot].meal, slot), (p) => deviation(totalsOf(withPick(p)), targets));
+        if (pick && deviation(totalsOf(withPick(pick)), targets) < current) {
+          picks[slot] = pick;
+          improved = true;
+        }
+      }
+      if (!improved) break;
+    }
+
+    for (const pick of picks) {
+      if (used.has(pick.recipe.recipe_id)) repeats++;
+      used.add(pick.recipe.recipe_id);
+    }
+    plan.push(picks);
+  }
+  return { days: plan, repeats };
+}
+
+/** Day totals and which targets they miss by more than `tolerance` (a fraction, 0.1 = ±10%). */
+export function summarizePlanDay(meals: PlannedMeal[], targets: PlanTargets, tolerance: number) {
+  const totals = totalsOf(meals);
+  const offTarget = [];
+  for (const goal of ['calories', ...MACROS] as const) {
+    const target = targets[goal];
+    if (!target) continue;
+    const off = totals[goal] / target - 1;
+    if (Math.abs(off) > tolerance) {
+      offTarget.push({ goal, target: round(target), actual: round(totals[goal]), off_by_pct: round(off * 100, 1) });
+    }
+  }
+  return {
+    meals: meals.map(({ meal, recipe, servings }) => ({
+      meal,
+      recipe_id: recipe.recipe_id,
+      recipe_name: recipe.recipe_name,
+      servings,
+      calories: round(recipe.calories * servings),
+      protein: round(recipe.protein * servings),
+      carbohydrate: round(recipe.carbohydrate * servings),
+      fat: round(recipe.fat * servings),
+    })),
+    totals: {
+      calories: round(totals.calories),
+      protein: round(totals.protein),
+      carbohydrate: round(totals.carbohydrate),
+      fat: round(totals.fat),
+    },
+    macro_percentages: macroPercentages(totals),
+    within_tolerance: offTarget.length === 0,
+    off_target: offTarget,
+  };
+}
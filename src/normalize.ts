@@ -0,0 +1,94 @@
+import type { z } from 'zod';
+import { daysToDate } from './dates.js';
+import { UnexpectedResponseError } from './errors.js';
+
+// FatSecret wraps collections as `{ <container>: { <item>: T | T[] } }`, sending a bare
+// object for a single item and `null` (or nothing) for none. Keys: container → item.
+const COLLECTIONS: Record<string, string> = {
+  foods: 'food',
+  results: 'food',
+  servings: 'serving',
+  serving_sizes: 'serving',
+  food_entries: 'food_entry',
+  month: 'day',
+  recipes: 'recipe',
+  ingredients: 'ingredient',
+  recipe_ingredients: 'ingredient',
+  directions: 'direction',
+  recipe_types: 'recipe_type',
+  recipe_categories: 'recipe_category',
+  recipe_images: 'recipe_image',
+  exercise_types: 'exercise',
+  saved_meals: 'saved_meal',
+  saved_meal_items: 'saved_meal_item',
+  food_categories: 'food_category',
+  food_sub_categories: 'food_sub_category',
+  brands: 'brand',
+  suggestions: 'suggestion',
+  food_images: 'food_image',
+  allergens: 'allergen',
+  preferences: 'preference',
+};
+
+// Tool arguments echoed by the audit log and undo are kept exactly as they were given
+const VERBATIM_KEYS = new Set(['arguments']);
+
+// Plain decimals only: leading zeros (barcodes) and exponents stay strings
+const NUMERIC = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+function isTextKey(key: string): boolean {
+  return key === 'barcode' || key === 'name' || key.endsWith('profile') || /_(name|description|comment|url)$/.test(key);
+}
+
+function normalizeValue(value: unknown, key: string): unknown {
+  if (Array.isArray(value)) return value.map((item) => normalizeValue(item, key));
+  if (value !== null && typeof value === 'object') return normalizeObject(value as Record<string, unknown>);
+  if (typeof value === 'string' && !isTextKey(key) && NUMERIC.test(value)) return Number(value);
+  return value;
+}
+
+function normalizeCollection(container: unknown, item: string, key: string): unknown {
+  if (container === null || container === undefined || container === '') return { [item]: [] };
+  if (typeof container !== 'object' || Array.isArray(container)) return normalizeValue(container, key);
+
+  const obj = normalizeObject(container as Record<string, unknown>);
+  const items = obj[item];
+  obj[item] = items === undefined || items === null ? [] : Array.isArray(items) ? items : [items];
+  return obj;
+}
+
+function normalizeObject(obj: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const item = COLLECTIONS[key];
+    if (VERBATIM_KEYS.has(key)) out[key] = value;
+    else out[key] = item ? normalizeCollection(value, item, key) : normalizeValue(value, key);
+
+    // `date_int`, `from_date_int`, ... gain an ISO sibling (`date`, `from_date`, ...)
+    if (key.endsWith('date_int') && typeof out[key] === 'number') {
+      out[key.slice(0, -'_int'.length)] = daysToDate(out[key] as number);
+    }
+  }
+  return out;
+}
+
+/**
+ * Normalizes a FatSecret response for tool output: collections are always arrays,
+ * numeric strings become numbers, and `*date_int` day counts get an ISO `YYYY-MM-DD` sibling.
+ */
+export function normalizeResponse<T>(data: T): T {
+  return normalizeValue(data, '') as T;
+}
+
+/** Normalizes a response and validates it against a response schema from `schemas.ts`. */
+export function parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, context: string): z.output<T> {
+  const parsed = schema.safeParse(normalizeResponse(data));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new UnexpectedResponseError(
+      `Unexpected FatSecret response for ${context}: ${issues}`,
+      'The API returned data in an unexpected shape. Try again, or report it if it keeps happening.',
+    );
+  }
+  return parsed.data;
+}
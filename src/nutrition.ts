@@ -0,0 +1,198 @@
+export const MEALS = ['breakfast', 'lunch', 'dinner', 'other'] as const;
+export type Meal = (typeof MEALS)[number];
+
+export const NUTRIENTS = [
+  'calories',
+  'carbohydrate',
+  'protein',
+  'fat',
+  'saturated_fat',
+  'polyunsaturated_fat',
+  'monounsaturated_fat',
+  'trans_fat',
+  'cholesterol',
+  'sodium',
+  'potassium',
+  'fiber',
+  'sugar',
+  'added_sugars',
+  'vitamin_a',
+  'vitamin_c',
+  'vitamin_d',
+  'calcium',
+  'iron',
+] as const;
+export type Nutrient = (typeof NUTRIENTS)[number];
+export type NutrientTotals = Record<Nutrient, number>;
+
+// Atwater factors, kcal per gram
+export const KCAL_PER_GRAM = { protein: 4, carbohydrate: 4, fat: 9 } as const;
+
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function emptyTotals(): NutrientTotals {
+  return Object.fromEntries(NUTRIENTS.map((n) => [n, 0])) as NutrientTotals;
+}
+
+/** Sums every nutrient over the items; missing or non-numeric values count as 0. */
+export function sumNutrients(items: Partial<Record<Nutrient, unknown>>[]): NutrientTotals {
+  const totals = emptyTotals();
+  for (const item of items) {
+    for (const n of NUTRIENTS) {
+      const value = Number(item[n]);
+      if (Number.isFinite(value)) totals[n] += value;
+    }
+  }
+  for (const n of NUTRIENTS) totals[n] = round(totals[n]);
+  return totals;
+}
+
+/** Share of macro calories (protein/carbs at 4 kcal/g, fat at 9 kcal/g), in percent. */
+export function macroPercentages(totals: Pick<NutrientTotals, 'protein' | 'carbohydrate' | 'fat'>) {
+  const kcal = {
+    protein: totals.protein * KCAL_PER_GRAM.protein,
+    carbohydrate: totals.carbohydrate * KCAL_PER_GRAM.carbohydrate,
+    fat: totals.fat * KCAL_PER_GRAM.fat,
+  };
+  const sum = kcal.protein + kcal.carbohydrate + kcal.fat;
+  const pct = (v: number) => (sum > 0 ? round((v / sum) * 100, 1) : 0);
+  return { protein: pct(kcal.protein), carbohydrate: pct(kcal.carbohydrate), fat: pct(kcal.fat) };
+}
+
+/** Maps FatSecret's meal labels ("Breakfast", "Snacks/Other", ...) onto the tool meal names. */
+export function toMeal(label: unknown): Meal {
+  const value = String(label ?? '').toLowerCase();
+  return MEALS.find((m) => value.startsWith(m)) ?? 'other';
+}
+
+type Loggable = Partial<Record<Nutrient, unknown>> & { meal?: unknown };
+
+export function summarize(items: Loggable[]) {
+  const totals = sumNutrients(items);
+  return { entry_count: items.length, totals, macro_percentages: macroPercentages(totals) };
+}
+
+/** Day totals plus a breakdown for each of the four meals (empty meals included with zeros). */
+export function summarizeByMeal(entries: Loggable[]) {
+  return {
+    ...summarize(entries),
+    meals: MEALS.map((meal) => ({ meal, ...summarize(entries.filter((e) => toMeal(e.meal) === meal)) })),
+  };
+}
+
+// ── Date range report ──
+
+type MonthFoodDay = { date: string } & Partial<Record<'calories' | 'carbohydrate' | 'protein' | 'fat', number>>;
+type MonthExerciseDay = { date: string; calories?: number };
+type MonthWeightDay = { date: string; weight_kg?: number };
+
+export interface ReportDay {
+  date: string;
+  calories?: number;
+  carbohydrate?: number;
+  protein?: number;
+  fat?: number;
+  exercise_calories?: number;
+  net_calories?: number;
+  weight_kg?: number;
+}
+
+type ReportField = Exclude<keyof ReportDay, 'date'>;
+
+function average(values: number[]): number | null {
+  return values.length ? round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+function total(days: ReportDay[], field: ReportField): number {
+  return round(days.reduce((sum, d) => sum + (d[field] ?? 0), 0));
+}
+
+function extremeCaloriesDay(days: ReportDay[], pick: 'min' | 'max') {
+  if (!days.length) return null;
+  const best = days.reduce((a, b) => {
+    const [x, y] = [a.calories ?? 0, b.calories ?? 0];
+    return (pick === 'min' ? y < x : y > x) ? b : a;
+  });
+  return { date: best.date, calories: best.calories ?? 0 };
+}
+
+/**
+ * Merges the food, exercise and weight month endpoints into one row per date and computes range
+ * statistics. Averages only count days with data; net calories are food minus exercise calories.
+ */
+export function nutritionReport(
+  dates: string[],
+  food: MonthFoodDay[],
+  exercise: MonthExerciseDay[],
+  weight: MonthWeightDay[],
+) {
+  const foodByDate = new Map(food.map((d) => [d.date, d]));
+  const exerciseByDate = new Map(exercise.map((d) => [d.date, d.calories]));
+  const weightByDate = new Map(weight.map((d) => [d.date, d.weight_kg]));
+
+  const days = dates.map((date): ReportDay => {
+    const f = foodByDate.get(date);
+    const burned = exerciseByDate.get(date);
+    const weightKg = weightByDate.get(date);
+    return {
+      date,
+      ...(f
+        ? {
+            calories: f.calories ?? 0,
+            carbohydrate: f.carbohydrate ?? 0,
+            protein: f.protein ?? 0,
+            fat: f.fat ?? 0,
+          }
+        : {}),
+      ...(burned !== undefined ? { exercise_calories: burned } : {}),
+      ...(f ? { net_calories: round((f.calories ?? 0) - (burned ?? 0)) } : {}),
+      ...(weightKg !== undefined ? { weight_kg: weightKg } : {}),
+    };
+  });
+
+  const foodDays = days.filter((d) => d.calories !== undefined);
+  const exerciseDays = days.filter((d) => d.exercise_calories !== undefined);
+  const weights = days.filter((d) => d.weight_kg !== undefined).map((d) => d.weight_kg!);
+  const averageOf = (list: ReportDay[], field: ReportField) => average(list.map((d) => d[field]!));
+
+  const totals = {
+    calories: total(foodDays, 'calories'),
+    carbohydrate: total(foodDays, 'carbohydrate'),
+    protein: total(foodDays, 'protein'),
+    fat: total(foodDays, 'fat'),
+    exercise_calories: total(exerciseDays, 'exercise_calories'),
+    net_calories: total(foodDays, 'net_calories'),
+  };
+
+  return {
+    start_date: dates[0],
+    end_date: dates[dates.length - 1],
+    day_count: dates.length,
+    logged_days: { food: foodDays.length, exercise: exerciseDays.length, weight: weights.length },
+    totals,
+    averages: {
+      calories: averageOf(foodDays, 'calories'),
+      carbohydrate: averageOf(foodDays, 'carbohydrate'),
+      protein: averageOf(foodDays, 'protein'),
+      fat: averageOf(foodDays, 'fat'),
+      exercise_calories: averageOf(exerciseDays, 'exercise_calories'),
+      net_calories: averageOf(foodDays, 'net_calories'),
+    },
+    macro_percentages: macroPercentages(totals),
+    min_calories_day: extremeCaloriesDay(foodDays, 'min'),
+    max_calories_day: extremeCaloriesDay(foodDays, 'max'),
+    weight: weights.length
+      ? {
+          start_kg: weights[0],
+          end_kg: weights[weights.length - 1],
+          change_kg: round(weights[weights.length - 1] - weights[0]),
+          min_kg: Math.min(...weights),
+          max_kg: Math.max(...weights),
+        }
+      : null,
+    days,
+  };
+}
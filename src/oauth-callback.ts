@@ -0,0 +1,90 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface OAuthCallbackOptions {
+  /** Port to bind on 127.0.0.1; 0 picks a free one. */
+  port: number;
+  /** How long to wait for the browser redirect before giving up. */
+  timeoutMs: number;
+  /** Exchanges the verifier for access tokens; a rejection is shown on the callback page. */
+  onCallback(oauthToken: string, verifier: string): Promise<void>;
+}
+
+export interface OAuthCallbackServer {
+  callbackUrl: string;
+  close(): void;
+}
+
+const CALLBACK_PATH = '/callback';
+
+function page(title: string, message: string): string {
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+    `<body style="font-family: sans-serif; margin: 3em;"><h1>${title}</h1><p>${message}</p></body></html>`;
+}
+
+function escapeHtml(str: string): string {
+  return str.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Starts a temporary loopback listener that receives FatSecret's OAuth 1.0 redirect
+ * (`?oauth_token=...&oauth_verifier=...`). It handles a single successful callback, then shuts down.
+ * Rejects if the port can't be bound so the caller can fall back to the out-of-band PIN flow.
+ */
+export async function startOAuthCallbackServer(options: OAuthCallbackOptions): Promise<OAuthCallbackServer> {
+  // Callbacks whose page is still being written
+  let responding = 0;
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const oauthToken = url.searchParams.get('oauth_token');
+    const verifier = url.searchParams.get('oauth_verifier');
+    if (!oauthToken || !verifier) {
+      res.writeHead(400, { 'Content-Type': 'text/html' })
+        .end(page('Authorization failed', 'The redirect did not include an OAuth verifier. Run start_auth again.'));
+      return;
+    }
+
+    responding++;
+    res.on('close', () => responding--);
+    options.onCallback(oauthToken, verifier).then(
+      () => {
+        res.writeHead(200, { 'Content-Type': 'text/html', Connection: 'close' })
+          .end(page('FatSecret authorized', 'You can close this tab and return to your assistant.'));
+        close();
+      },
+      (err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        res.writeHead(500, { 'Content-Type': 'text/html' })
+          .end(page('Authorization failed', `${escapeHtml(message)} — you can retry with start_auth.`));
+      },
+    );
+  });
+
+  // Open connections are dropped on timeout or abort, but not while a callback page is being
+  // written: onCallback itself closes the server once the tokens are stored
+  const close = () => {
+    clearTimeout(timer);
+    server.close();
+    if (responding) server.closeIdleConnections();
+    else server.closeAllConnections();
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const timer = setTimeout(close, options.timeoutMs);
+  timer.unref();
+
+  const { port } = server.address() as AddressInfo;
+  return { callbackUrl: `http://127.0.0.1:${port}${CALLBACK_PATH}`, close };
+}
@@ -0,0 +1,111 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { InvalidParameterError } from './errors.js';
+import { NUTRIENTS, round, type Nutrient } from './nutrition.js';
+import type { Recipe } from './schemas.js';
+
+/** How much of a recipe to make: a total yield in grams, a number of servings, or a multiplier. */
+export interface BatchSize {
+  multiplier?: number;
+  servings?: number;
+  yield_g?: number;
+}
+
+/** Batch size relative to the recipe's own yield; `yield_g` wins over `servings`, which wins over `multiplier`. */
+export function batchFactor(recipe: Recipe, { multiplier, servings, yield_g }: BatchSize): number {
+  if (yield_g !== undefined) {
+    const recipeYield = (recipe.grams_per_portion ?? 0) * (recipe.number_of_servings ?? 0);
+    if (!recipeYield) {
+      throw new InvalidParameterError(
+        `Recipe ${recipe.recipe_id} has no yield in grams`,
+        undefined,
+        undefined,
+        'Give the batch size as servings instead.',
+      );
+    }
+    return yield_g / recipeYield;
+  }
+  if (servings !== undefined) return servings / (recipe.number_of_servings || 1);
+  return multiplier ?? 1;
+}
+
+function scaleNutrients<T extends Partial<Record<string, unknown>>>(values: T, factor: number): T {
+  const scaled: Record<string, unknown> = { ...values };
+  for (const nutrient of NUTRIENTS) {
+    const value = values[nutrient];
+    if (typeof value === 'number') scaled[nutrient] = round(value * factor);
+  }
+  return scaled as T;
+}
+
+/**
+ * The recipe made `factor` times and split into `servings` portions (default: the recipe's
+ * portion size kept). Ingredient `number_of_units` are scaled; `ingredient_description` keeps the
+ * original wording. Serving nutrition and `grams_per_portion` change only when portions do.
+ */
+export function scaleRecipe(recipe: Recipe, factor: number, servings?: number): Recipe {
+  const recipeServings = recipe.number_of_servings || 1;
+  const newServings = servings ?? recipeServings * factor;
+  const portion = (factor * recipeServings) / newServings;
+  return {
+    ...recipe,
+    number_of_servings: round(newServings, 2),
+    grams_per_portion: recipe.grams_per_portion === undefined ? undefined : round(recipe.grams_per_portion * portion, 1),
+    serving_sizes: recipe.serving_sizes && {
+      ...recipe.serving_sizes,
+      serving: recipe.serving_sizes.serving.map((serving) => scaleNutrients(serving, portion)),
+    },
+    ingredients: recipe.ingredients && {
+      ...recipe.ingredients,
+      ingredient: recipe.ingredients.ingredient.map((ingredient) => ({
+        ...ingredient,
+        number_of_units: ingredient.number_of_units === undefined ? undefined : round(ingredient.number_of_units * factor, 3),
+      })),
+    },
+  };
+}
+
+/** Nutrition of the whole batch: the first serving size times the number of servings. */
+export function batchNutrition(recipe: Recipe): Partial<Record<Nutrient, number>> {
+  const serving = recipe.serving_sizes?.serving[0];
+  if (!serving) return {};
+  const servings = recipe.number_of_servings || 1;
+  return Object.fromEntries(
+    NUTRIENTS.flatMap((nutrient) => {
+      const value = serving[nutrient];
+      return typeof value === 'number' ? [[nutrient, round(value * servings)]] : [];
+    }),
+  );
+}
+
+/**
+ * Custom foods created to log recipes with mode "recipe", per account profile, as stored in
+ * `recipe-foods.json` next to `config.json`: food_id by `recipeFoodKey`.
+ */
+export type RecipeFoodsFile = Record<string, Record<string, number>>;
+
+export function loadRecipeFoodsFile(path: string): RecipeFoodsFile {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as RecipeFoodsFile;
+  } catch {
+    return {};
+  }
+}
+
+export function saveRecipeFoodsFile(path: string, foods: RecipeFoodsFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(foods, null, 2));
+}
+
+/**
+ * Identifies the custom food for a recipe: its ID, portion size and nutrition per serving. A food
+ * made for the same key can be logged again; a recipe whose nutrition changed gets a new one.
+ */
+export function recipeFoodKey(recipe: Recipe): string {
+  const serving = recipe.serving_sizes?.serving[0] ?? {};
+  const nutrition = NUTRIENTS.flatMap((nutrient) => {
+    const value = serving[nutrient];
+    return typeof value === 'number' ? [`${nutrient}=${value}`] : [];
+  });
+  return [recipe.recipe_id, recipe.grams_per_portion ?? '', ...nutrition].join(':');
+}
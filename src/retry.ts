@@ -0,0 +1,142 @@
+import type { Middleware } from 'openapi-fetch';
+
+/** Token bucket shared by every client, so all requests count against one rate. */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly perSecond: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(perSecond: number, capacity = perSecond) {
+    this.perSecond = perSecond;
+    this.capacity = Math.max(1, capacity);
+    this.tokens = this.capacity;
+  }
+
+  /** Resolves once a token is available; callers are served in order. */
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.perSecond) * 1000);
+    }
+  }
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt; GET only. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  bucket?: TokenBucket;
+  /** Prepares a request to be sent again, e.g. re-signing it with a fresh OAuth 1.0 nonce. */
+  prepareRetry?: (request: Request) => Request | Promise<Request>;
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const RATE_LIMIT_MESSAGE = /rate limit|too many/i;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** `Retry-After` in milliseconds, from either delta-seconds or an HTTP date. */
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** FatSecret can report rate limiting as an HTTP 200 with an `error` body. */
+async function isRateLimitBody(response: Response): Promise<boolean> {
+  if (!response.headers.get('Content-Type')?.includes('json')) return false;
+  try {
+    const body = (await response.clone().json()) as { error?: { message?: unknown } };
+    return RATE_LIMIT_MESSAGE.test(String(body?.error?.message ?? ''));
+  } catch {
+    return false;
+  }
+}
+
+async function shouldRetry(response: Response): Promise<boolean> {
+  return RETRYABLE_STATUS.has(response.status) || (response.ok && (await isRateLimitBody(response)));
+}
+
+/**
+ * Throttles every request through the token bucket and retries idempotent GETs on network
+ * errors, 429/5xx responses and in-body rate limit errors, with exponential backoff and full
+ * jitter (or the server's `Retry-After`). Other methods are sent once: a POST that timed out
+ * may still have created a diary entry.
+ */
+export function retryMiddleware(options: RetryOptions): Middleware {
+  const delay = (attempt: number, response?: Response) => {
+    const hinted = response && retryAfterMs(response);
+    if (hinted !== undefined) return Math.min(hinted, options.maxDelayMs);
+    return Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  };
+
+  const resend = async (request: Request): Promise<Response> => {
+    await options.bucket?.take();
+    const next = options.prepareRetry ? await options.prepareRetry(request.clone()) : request.clone();
+    return fetch(next);
+  };
+
+  // Retries already sent per request: a response returned from onError goes through onResponse
+  // too, which must not start a second round of retries
+  const attempts = new WeakMap<Request, number>();
+
+  return {
+    onRequest: async () => {
+      await options.bucket?.take();
+      return undefined;
+    },
+    onResponse: async ({ request, response }) => {
+      if (request.method !== 'GET') return undefined;
+      let current = response;
+      const first = (attempts.get(request) ?? 0) + 1;
+      for (let attempt = first; attempt <= options.retries && (await shouldRetry(current)); attempt++) {
+        attempts.set(request, attempt);
+        const reason = current.ok ? 'a rate limit error' : `HTTP ${current.status}`;
+        console.error(`Retrying ${new URL(request.url).pathname} after ${reason} (attempt ${attempt}/${options.retries})`);
+        await sleep(delay(attempt, current));
+        try {
+          current = await resend(request);
+        } catch {
+          // Keep the last response if a retry fails at the network level
+        }
+      }
+      return current === response ? undefined : current;
+    },
+    onError: async ({ request, error }) => {
+      if (request.method !== 'GET') return undefined;
+      let lastError = error;
+      for (let attempt = 1; attempt <= options.retries; attempt++) {
+        attempts.set(request, attempt);
+        console.error(`Retrying ${new URL(request.url).pathname} after network error (attempt ${attempt}/${options.retries})`);
+        await sleep(delay(attempt));
+        try {
+          const response = await resend(request);
+          if (!(await shouldRetry(response)) || attempt === options.retries) return response;
+        } catch (err) {
+          lastError = err;
+        }
+      }
+      return lastError instanceof Error ? lastError : undefined;
+    },
+  };
+}
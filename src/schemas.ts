@@ -1,12 +1,42 @@
 import { z } from 'zod';
 import * as pub from './generated/public-api.zod.js';
 import * as profile from './generated/profile-api.zod.js';
+import { parseDateInput } from './dates.js';
 
 // ── Reusable field overrides ──
 
-const DateField = z.string().optional().describe('Date in YYYY-MM-DD format (default today)');
-const RequiredDateField = z.string().describe('Date in YYYY-MM-DD format');
+// Relative dates ("yesterday", "last monday", "-3d") resolve to YYYY-MM-DD in the user's timezone.
+// A fresh schema per field keeps the generated JSON Schema free of `$ref`s between properties.
+function dateInput(description: string) {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      const date = parseDateInput(value);
+      if (date) return date;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid date "${value}". Use YYYY-MM-DD, today, yesterday, last monday, 3 days ago or -3d`,
+      });
+      return z.NEVER;
+    })
+    .describe(description);
+}
+const dateField = (description = 'Date: YYYY-MM-DD, today, yesterday, last monday or -3d (default today)') =>
+  dateInput(description).optional();
+const requiredDateField = (description = 'Date: YYYY-MM-DD, today, yesterday, last monday or -3d') =>
+  dateInput(description);
 const MealField = z.enum(['breakfast', 'lunch', 'dinner', 'other']).describe('Meal type');
+const ProfileField = z.string().optional().describe('Account profile to use (default: the active profile, see list_profiles)');
+const AmountField = z
+  .number()
+  .positive()
+  .optional()
+  .describe('Amount eaten in `unit`, converted to a serving (alternative to number_of_units)');
+const UnitField = z
+  .string()
+  .optional()
+  .describe('Unit for amount: g, kg, oz, lb, ml, l, cup, tbsp, tsp, fl oz, or serving/slice/piece (default: the serving\'s own unit)');
+const ProfileNameField = z.string().regex(/^[A-Za-z0-9_-]+$/).describe('Profile name (letters, digits, "-" and "_")');
 
 // ── Public API – Foods ──
 
@@ -36,6 +66,29 @@ export const GetRecipeInputSchema = pub.get__recipe_v2.parameters.shape.query
   .omit({ format: true })
   .extend({ recipe_id: z.number().int().describe('Recipe ID') });
 
+export const ScaleRecipeInputSchema = GetRecipeInputSchema.pick({ recipe_id: true }).extend({
+  servings: z.number().positive().optional().describe('Servings to make at the same portion size; with yield_g, the portions to split the batch into'),
+  yield_g: z.number().positive().optional().describe('Total weight of the batch to make (g)'),
+});
+
+export const BuildShoppingListInputSchema = z.object({
+  recipes: z
+    .array(
+      z.object({
+        recipe_id: z.number().int().describe('Recipe ID'),
+        multiplier: z.number().positive().optional().describe('Batches to cook, e.g. 2 for a double batch or 0.5 for half (default 1)'),
+        servings: z.number().positive().optional().describe('Servings to cook, instead of multiplier'),
+      }),
+    )
+    .min(1)
+    .max(20)
+    .describe('Recipes to shop for'),
+  group_by_category: z
+    .boolean()
+    .optional()
+    .describe('Group items by FatSecret food category (requires a Premier API key; default false)'),
+});
+
 // ── Public API – Reference Data ──
 
 export const GetFoodCategoriesInputSchema = pub.get__foodCategories_v2.parameters.shape.query
@@ -54,97 +107,181 @@ export const GetRecipeTypesInputSchema = z.object({});
 
 export const GetFoodEntriesInputSchema = profile.get__foodEntries_v2.parameters.shape.query
   .omit({ format: true, date: true })
-  .extend({ date: DateField.describe('Date in YYYY-MM-DD (required if food_entry_id not specified)') });
+  .extend({
+    date: dateField('Date: YYYY-MM-DD or relative, e.g. yesterday (required if food_entry_id not specified)'),
+    profile: ProfileField,
+  });
 
 export const GetFoodEntriesMonthInputSchema = profile.get__foodEntries_month_v2.parameters.shape.query
   .omit({ format: true, method: true, date: true })
-  .extend({ date: DateField.describe('Any date within the target month (YYYY-MM-DD)') });
+  .extend({
+    date: dateField('Any date within the target month (YYYY-MM-DD or relative, e.g. -1w)'),
+    profile: ProfileField,
+  });
 
 export const CreateFoodEntryInputSchema = profile.post__foodEntries_v1.parameters.shape.query
   .omit({ format: true, date: true, meal: true })
   .extend({
     food_id: z.number().int().describe('Food ID'),
     food_entry_name: z.string().describe('Name for the food entry'),
-    serving_id: z.number().int().describe('Serving size ID'),
-    number_of_units: z.number().describe('Number of serving units'),
+    serving_id: z.number().int().optional().describe('Serving size ID (optional with amount: picked automatically)'),
+    number_of_units: z.number().optional().describe('Number of serving units (or give amount/unit)'),
+    amount: AmountField,
+    unit: UnitField,
     meal: MealField,
-    date: DateField,
+    date: dateField(),
+    profile: ProfileField,
   });
 
+export const CreateFoodEntriesInputSchema = z.object({
+  entries: z
+    .array(CreateFoodEntryInputSchema.omit({ profile: true }))
+    .min(1)
+    .max(50)
+    .describe('Entries to create, each like a create_food_entry call'),
+  profile: ProfileField,
+});
+
 export const EditFoodEntryInputSchema = profile.put__foodEntries_v1.parameters.shape.query
   .omit({ format: true, meal: true })
   .extend({
     food_entry_id: z.number().int().describe('Food entry ID to edit'),
     meal: MealField.optional(),
+    amount: AmountField,
+    unit: UnitField,
+    profile: ProfileField,
   });
 
 export const DeleteFoodEntryInputSchema = profile.delete__foodEntries_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ food_entry_id: z.number().int().describe('Food entry ID to delete') });
+  .extend({
+    food_entry_id: z.number().int().describe('Food entry ID to delete'),
+    profile: ProfileField,
+  });
 
 export const CopyFoodEntriesInputSchema = profile.post__foodEntries_copy_v1.parameters.shape.query
   .omit({ format: true, from_date: true, to_date: true, meal: true })
   .extend({
-    from_date: RequiredDateField.describe('Source date YYYY-MM-DD'),
-    to_date: RequiredDateField.describe('Target date YYYY-MM-DD'),
+    from_date: requiredDateField('Source date (YYYY-MM-DD or relative, e.g. yesterday)'),
+    to_date: requiredDateField('Target date (YYYY-MM-DD or relative, e.g. today)'),
     meal: MealField.optional(),
+    profile: ProfileField,
   });
 
+export const MoveFoodEntriesInputSchema = z.object({
+  food_entry_ids: z.array(z.number().int()).min(1).max(50).optional().describe('Entries to move (or give from_date)'),
+  from_date: dateField('Move the entries of this day instead of listing IDs (YYYY-MM-DD or relative)'),
+  from_meal: MealField.optional().describe('With from_date, only move the entries of this meal'),
+  to_date: dateField('Target date (YYYY-MM-DD or relative; default: keep each entry\'s date)'),
+  to_meal: MealField.optional().describe('Target meal (default: keep each entry\'s meal)'),
+  profile: ProfileField,
+});
+
 export const CopySavedMealEntriesInputSchema = profile.post__foodEntries_copy_savedMeal_v1.parameters.shape.query
   .omit({ format: true, date: true, meal: true })
   .extend({
     saved_meal_id: z.number().int().describe('Saved meal ID to copy'),
     meal: MealField,
-    date: DateField,
+    date: dateField(),
+    profile: ProfileField,
   });
 
+export const LogFoodTextInputSchema = z.object({
+  text: z.string().min(1).describe('What was eaten, e.g. "two eggs and a slice of whole-wheat toast for breakfast"'),
+  meal: MealField.optional().describe('Meal for items the text does not assign to one (default other)'),
+  date: dateField(),
+  confirm: z.boolean().optional().describe('Create the entries. Default false only returns a preview to confirm'),
+  profile: ProfileField,
+});
+
+export const LogRecipeInputSchema = z.object({
+  recipe_id: z.number().int().describe('Recipe ID (see search_recipes)'),
+  servings: z.number().positive().optional().describe('Servings eaten (default 1)'),
+  meal: MealField,
+  date: dateField(),
+  mode: z
+    .enum(['ingredients', 'recipe'])
+    .optional()
+    .describe('"ingredients" (default): one entry per ingredient, scaled to the servings eaten. "recipe": one entry, through a custom food with the recipe\'s nutrition per serving (Premier exclusive)'),
+  profile: ProfileField,
+});
+
+export const GetDailySummaryInputSchema = z.object({
+  date: dateField(),
+  profile: ProfileField,
+});
+
+export const GetNutritionReportInputSchema = z.object({
+  start_date: requiredDateField('First day of the report (YYYY-MM-DD or relative, e.g. -7d)'),
+  end_date: dateField('Last day of the report, inclusive (YYYY-MM-DD or relative, default today)'),
+  profile: ProfileField,
+});
+
 // ── Profile API – Favorites ──
 
-export const GetFavoriteFoodsInputSchema = z.object({});
+export const GetFavoriteFoodsInputSchema = z.object({ profile: ProfileField });
 
 export const DeleteFavoriteFoodInputSchema = profile.post__food_favorite_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ food_id: z.number().int().describe('Food ID to remove from favorites') });
+  .extend({
+    food_id: z.number().int().describe('Food ID to remove from favorites'),
+    profile: ProfileField,
+  });
 
 export const GetMostEatenFoodsInputSchema = profile.get__food_mostEaten_v2.parameters.shape.query
   .omit({ format: true, meal: true })
-  .extend({ meal: MealField.optional() });
+  .extend({ meal: MealField.optional(), profile: ProfileField });
 
 export const GetRecentlyEatenFoodsInputSchema = profile.get__food_recentlyEaten_v2.parameters.shape.query
   .omit({ format: true, meal: true })
-  .extend({ meal: MealField.optional() });
+  .extend({ meal: MealField.optional(), profile: ProfileField });
 
-export const GetFavoriteRecipesInputSchema = z.object({});
+export const GetFavoriteRecipesInputSchema = z.object({ profile: ProfileField });
 
 export const AddFavoriteRecipeInputSchema = profile.post__recipe_favorites_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ recipe_id: z.number().int().describe('Recipe ID to add to favorites') });
+  .extend({
+    recipe_id: z.number().int().describe('Recipe ID to add to favorites'),
+    profile: ProfileField,
+  });
 
 export const DeleteFavoriteRecipeInputSchema = profile.delete__recipe_favorites_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ recipe_id: z.number().int().describe('Recipe ID to remove from favorites') });
+  .extend({
+    recipe_id: z.number().int().describe('Recipe ID to remove from favorites'),
+    profile: ProfileField,
+  });
 
 // ── Profile API – Saved Meals ──
 
 export const GetSavedMealsInputSchema = profile.get__savedMeals_v2.parameters.shape.query
   .omit({ format: true, meal: true })
-  .extend({ meal: MealField.optional().describe('Filter by meal type') });
+  .extend({ meal: MealField.optional().describe('Filter by meal type'), profile: ProfileField });
 
 export const CreateSavedMealInputSchema = profile.post__savedMeals_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ saved_meal_name: z.string().describe('Meal name') });
+  .extend({ saved_meal_name: z.string().describe('Meal name'), profile: ProfileField });
+
+export const SaveDiaryMealAsSavedMealInputSchema = CreateSavedMealInputSchema.extend({
+  date: dateField('Diary date to copy the meal from (YYYY-MM-DD or relative; default today)'),
+  meal: MealField.describe('Diary meal whose entries become the saved meal items'),
+  meals: z.string().optional().describe('Meals the saved meal is offered for, e.g. "lunch, dinner" (default: the diary meal)'),
+});
 
 export const EditSavedMealInputSchema = profile.put__savedMeals_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ saved_meal_id: z.number().int().describe('Saved meal ID') });
+  .extend({ saved_meal_id: z.number().int().describe('Saved meal ID'), profile: ProfileField });
 
 export const DeleteSavedMealInputSchema = profile.delete__savedMeals_v1.parameters.shape.query
   .omit({ format: true, method: true })
-  .extend({ saved_meal_id: z.number().int().describe('Saved meal ID to delete') });
+  .extend({
+    saved_meal_id: z.number().int().describe('Saved meal ID to delete'),
+    profile: ProfileField,
+  });
 
 export const GetSavedMealItemsInputSchema = profile.get__savedMeals_item_v2.parameters.shape.query
   .omit({ format: true })
-  .extend({ saved_meal_id: z.number().int().describe('Saved meal ID') });
+  .extend({ saved_meal_id: z.number().int().describe('Saved meal ID'), profile: ProfileField });
 
 export const AddSavedMealItemInputSchema = profile.post__savedMeals_item_v1.parameters.shape.query
   .omit({ format: true })
@@ -152,17 +289,26 @@ export const AddSavedMealItemInputSchema = profile.post__savedMeals_item_v1.para
     saved_meal_id: z.number().int().describe('Saved meal ID'),
     food_id: z.number().int().describe('Food ID to add'),
     saved_meal_item_name: z.string().describe('Item name'),
-    serving_id: z.number().int().describe('Serving ID'),
-    number_of_units: z.number().describe('Number of serving units'),
+    serving_id: z.number().int().optional().describe('Serving ID (optional with amount: picked automatically)'),
+    number_of_units: z.number().optional().describe('Number of serving units (or give amount/unit)'),
+    amount: AmountField,
+    unit: UnitField,
+    profile: ProfileField,
   });
 
 export const EditSavedMealItemInputSchema = profile.put__savedMeals_item_v1.parameters.shape.query
   .omit({ format: true })
-  .extend({ saved_meal_item_id: z.number().int().describe('Saved meal item ID') });
+  .extend({
+    saved_meal_item_id: z.number().int().describe('Saved meal item ID'),
+    profile: ProfileField,
+  });
 
 export const DeleteSavedMealItemInputSchema = profile.delete__savedMeals_item_v1.parameters.shape.query
   .omit({ format: true, method: true })
-  .extend({ saved_meal_item_id: z.number().int().describe('Saved meal item ID to delete') });
+  .extend({
+    saved_meal_item_id: z.number().int().describe('Saved meal item ID to delete'),
+    profile: ProfileField,
+  });
 
 // ── Profile API – Custom Food ──
 
@@ -176,6 +322,7 @@ export const CreateFoodInputSchema = profile.post__food_v2.parameters.shape.quer
     fat: z.number().describe('Total fat (g)'),
     carbohydrate: z.number().describe('Total carbohydrate (g)'),
     protein: z.number().describe('Protein (g)'),
+    profile: ProfileField,
   });
 
 // ── Profile API – Weight ──
@@ -184,16 +331,20 @@ export const UpdateWeightInputSchema = profile.post__weight_v1.parameters.shape.
   .omit({ format: true, date: true })
   .extend({
     current_weight_kg: z.number().describe('Current weight in kg'),
-    date: DateField,
+    date: dateField(),
+    profile: ProfileField,
   });
 
 export const GetWeightMonthInputSchema = profile.get__weight_month_v2.parameters.shape.query
   .omit({ format: true, date: true })
-  .extend({ date: DateField.describe('Any date within the target month (YYYY-MM-DD)') });
+  .extend({
+    date: dateField('Any date within the target month (YYYY-MM-DD or relative, e.g. -1w)'),
+    profile: ProfileField,
+  });
 
 // ── Profile API – Exercise ──
 
-export const GetExercisesInputSchema = z.object({});
+export const GetExercisesInputSchema = z.object({ profile: ProfileField });
 
 export const EditExerciseEntriesInputSchema = profile.put__exerciseEntries_v1.parameters.shape.query
   .omit({ format: true, date: true })
@@ -201,23 +352,28 @@ export const EditExerciseEntriesInputSchema = profile.put__exerciseEntries_v1.pa
     shift_to_id: z.number().int().describe('Exercise ID to shift time TO'),
     shift_from_id: z.number().int().describe('Exercise ID to shift time FROM'),
     minutes: z.number().int().describe('Minutes to shift'),
-    date: DateField,
+    date: dateField(),
+    profile: ProfileField,
   });
 
 export const GetExerciseEntriesMonthInputSchema = profile.get__exerciseEntries_month_v2.parameters.shape.query
   .omit({ format: true, date: true })
-  .extend({ date: DateField.describe('Any date within the target month (YYYY-MM-DD)') });
+  .extend({
+    date: dateField('Any date within the target month (YYYY-MM-DD or relative, e.g. -1w)'),
+    profile: ProfileField,
+  });
 
 export const SaveExerciseTemplateInputSchema = profile.post__exerciseEntries_day_v1.parameters.shape.query
   .omit({ format: true, date: true })
   .extend({
     days: z.number().int().describe('Days of week as bit flags (Sun=bit 1, Sat=bit 7), converted to int'),
-    date: DateField,
+    date: dateField(),
+    profile: ProfileField,
   });
 
 // ── Profile ──
 
-export const GetProfileInputSchema = z.object({});
+export const GetProfileInputSchema = z.object({ profile: ProfileField });
 
 // ── OAuth Flow ──
 
@@ -227,10 +383,442 @@ export const SetupCredentialsInputSchema = z.object({
   consumer_secret: z.string().describe('FatSecret Consumer Secret (OAuth 1.0 — different from Client Secret, found on the same API Keys page)'),
 });
 
-export const StartAuthInputSchema = z.object({});
+export const StartAuthInputSchema = z.object({
+  profile: ProfileNameField.optional().describe('Profile to store the authorization under (default: the active profile)'),
+  mode: z
+    .enum(['callback', 'pin'])
+    .optional()
+    .describe('"callback" (default) finishes automatically via a temporary localhost listener; "pin" requires complete_auth with the verifier PIN'),
+});
 
 export const CompleteAuthInputSchema = z.object({
   verifier: z.string().describe('OAuth verifier code from the authorization page'),
 });
 
 export const CheckAuthStatusInputSchema = z.object({});
+
+// ── Account Profiles ──
+
+export const ListProfilesInputSchema = z.object({});
+
+export const SwitchProfileInputSchema = z.object({
+  profile: ProfileNameField.describe('Profile to make active'),
+});
+
+export const RemoveProfileInputSchema = z.object({
+  profile: ProfileNameField.describe('Profile to remove (its saved tokens are deleted)'),
+});
+
+// ── Nutrition Goals ──
+
+const Grams = z.number().positive();
+const Percent = z.number().min(0).max(100);
+
+export const NutritionGoalsSchema = z.object({
+  calories: z.number().positive().optional().describe('Daily calorie budget (kcal)'),
+  protein_g: Grams.optional().describe('Daily protein target (g)'),
+  carbohydrate_g: Grams.optional().describe('Daily carbohydrate target (g)'),
+  fat_g: Grams.optional().describe('Daily fat target (g)'),
+  protein_pct: Percent.optional().describe('Protein target as % of the calorie budget (instead of protein_g)'),
+  carbohydrate_pct: Percent.optional().describe('Carbohydrate target as % of the calorie budget (instead of carbohydrate_g)'),
+  fat_pct: Percent.optional().describe('Fat target as % of the calorie budget (instead of fat_g)'),
+  fiber_g: Grams.optional().describe('Daily fiber minimum (g)'),
+  sodium_mg: z.number().positive().optional().describe('Daily sodium cap (mg)'),
+  sugar_g: Grams.optional().describe('Daily sugar cap (g)'),
+  meal_calories: z
+    .object({ breakfast: z.number().positive(), lunch: z.number().positive(), dinner: z.number().positive(), other: z.number().positive() })
+    .partial()
+    .optional()
+    .describe('Per-meal calorie budgets (kcal)'),
+});
+
+export const SetGoalsInputSchema = NutritionGoalsSchema.extend({
+  clear: z.array(NutritionGoalsSchema.keyof()).optional().describe('Goals to remove; goals not mentioned are kept'),
+  profile: ProfileField,
+});
+
+export const GetGoalsInputSchema = z.object({ profile: ProfileField });
+
+export const CheckGoalsInputSchema = z.object({
+  date: dateField(),
+  period: z.enum(['day', 'week']).optional().describe('"day" (default) or the Monday–Sunday week containing date'),
+  profile: ProfileField,
+});
+
+// ── Meal Plan ──
+
+export const GenerateMealPlanInputSchema = NutritionGoalsSchema.pick({
+  calories: true,
+  protein_g: true,
+  carbohydrate_g: true,
+  fat_g: true,
+  protein_pct: true,
+  carbohydrate_pct: true,
+  fat_pct: true,
+}).extend({
+  days: z.number().int().min(1).max(14).optional().describe('Number of days to plan (default 7)'),
+  start_date: dateField('First day of the plan (YYYY-MM-DD or relative; default today)'),
+  meals: z.array(MealField).min(1).optional().describe('Meals to plan each day; "other" is snacks (default all four)'),
+  tolerance_pct: z.number().positive().max(50).optional().describe('How far a day may miss the calorie and macro targets, in % (default 10)'),
+  max_prep_time_min: z.number().int().positive().optional().describe('Longest preparation time to allow (minutes)'),
+  search_expression: z.string().optional().describe('Only use recipes matching this, e.g. "vegetarian" or "chicken"'),
+  profile: ProfileField.describe('Profile whose stored goals (set_goals) fill in targets not given here'),
+});
+
+// ── Cache ──
+
+const CachedToolField = z.enum(['get_food', 'get_recipe', 'get_food_categories', 'get_brands', 'get_recipe_types']);
+
+export const ClearCacheInputSchema = z.object({
+  tool: CachedToolField.optional().describe('Only clear cached responses of this tool (default: everything)'),
+});
+
+// ── Undo ──
+
+export const UndoLastChangeInputSchema = z.object({
+  count: z.number().int().min(1).max(20).optional().describe('Number of recent changes to revert, newest first (default 1)'),
+  profile: z.string().optional().describe('Account profile whose changes to revert (default: the active profile)'),
+});
+
+// ── Audit Log ──
+
+export const GetAuditLogInputSchema = z.object({
+  start_date: dateField('Only changes on or after this day (YYYY-MM-DD or relative, e.g. -7d)'),
+  end_date: dateField('Only changes on or before this day (YYYY-MM-DD or relative)'),
+  tool: z.string().optional().describe('Only changes made by this tool, e.g. delete_food_entry'),
+  profile: z.string().optional().describe('Only changes to this account profile'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum entries to return, newest first (default 50)'),
+});
+
+// ── Confirm Mode ──
+
+/** Adds the `confirmation_token` argument that write tools take when confirm mode is on. */
+export function withConfirmationToken(schema: z.AnyZodObject): z.AnyZodObject {
+  return schema.extend({
+    confirmation_token: z
+      .string()
+      .optional()
+      .describe('Token from this tool\'s preview; pass it with the same arguments to apply the change'),
+  });
+}
+
+// ── Responses ──
+// Hand-curated shapes of FatSecret JSON responses after `normalizeResponse`, used as tool
+// output schemas. Objects pass unknown fields through so nothing the API returns is dropped.
+
+const IsoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const record = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+const NutritionShape = {
+  calories: z.number().optional(),
+  carbohydrate: z.number().optional(),
+  protein: z.number().optional(),
+  fat: z.number().optional(),
+  saturated_fat: z.number().optional(),
+  polyunsaturated_fat: z.number().optional(),
+  monounsaturated_fat: z.number().optional(),
+  trans_fat: z.number().optional(),
+  cholesterol: z.number().optional(),
+  sodium: z.number().optional(),
+  potassium: z.number().optional(),
+  fiber: z.number().optional(),
+  sugar: z.number().optional(),
+  added_sugars: z.number().optional(),
+  vitamin_a: z.number().optional(),
+  vitamin_c: z.number().optional(),
+  vitamin_d: z.number().optional(),
+  calcium: z.number().optional(),
+  iron: z.number().optional(),
+};
+
+const ServingSchema = record({
+  serving_id: z.number(),
+  serving_description: z.string().optional(),
+  serving_url: z.string().optional(),
+  metric_serving_amount: z.number().optional(),
+  metric_serving_unit: z.string().optional(),
+  number_of_units: z.number().optional(),
+  measurement_description: z.string().optional(),
+  is_default: z.number().optional(),
+  ...NutritionShape,
+});
+
+const FoodSchema = record({
+  food_id: z.number(),
+  food_name: z.string(),
+  food_type: z.string().optional(),
+  brand_name: z.string().optional(),
+  food_url: z.string().optional(),
+  food_description: z.string().optional(),
+  servings: record({ serving: z.array(ServingSchema) }).optional(),
+  food_sub_categories: record({ food_sub_category: z.array(z.string()) }).optional(),
+});
+
+const RecipeSummarySchema = record({
+  recipe_id: z.number(),
+  recipe_name: z.string(),
+  recipe_description: z.string().optional(),
+  recipe_image: z.string().optional(),
+  recipe_nutrition: record(NutritionShape).optional(),
+});
+
+const IngredientSchema = record({
+  food_id: z.number(),
+  food_name: z.string().optional(),
+  serving_id: z.number().optional(),
+  number_of_units: z.number().optional(),
+  measurement_description: z.string().optional(),
+  ingredient_description: z.string().optional(),
+  ingredient_url: z.string().optional(),
+});
+
+const RecipeSchema = record({
+  recipe_id: z.number(),
+  recipe_name: z.string(),
+  recipe_url: z.string().optional(),
+  recipe_description: z.string().optional(),
+  number_of_servings: z.number().optional(),
+  grams_per_portion: z.number().optional(),
+  preparation_time_min: z.number().optional(),
+  cooking_time_min: z.number().optional(),
+  serving_sizes: record({ serving: z.array(record({ serving_size: z.string().optional(), ...NutritionShape })) }).optional(),
+  ingredients: record({ ingredient: z.array(IngredientSchema) }).optional(),
+  directions: record({
+    direction: z.array(record({ direction_number: z.number().optional(), direction_description: z.string() })),
+  }).optional(),
+});
+
+export const FoodEntrySchema = record({
+  food_entry_id: z.number(),
+  food_entry_name: z.string().optional(),
+  food_entry_description: z.string().optional(),
+  date_int: z.number().optional(),
+  date: IsoDate.optional(),
+  meal: z.string().optional(),
+  food_id: z.number().optional(),
+  serving_id: z.number().optional(),
+  number_of_units: z.number().optional(),
+  ...NutritionShape,
+});
+
+const SavedMealSchema = record({
+  saved_meal_id: z.number(),
+  saved_meal_name: z.string().optional(),
+  saved_meal_description: z.string().optional(),
+  meals: z.string().optional(),
+});
+
+const SavedMealItemSchema = record({
+  saved_meal_item_id: z.number(),
+  saved_meal_item_name: z.string().optional(),
+  food_id: z.number().optional(),
+  serving_id: z.number().optional(),
+  number_of_units: z.number().optional(),
+});
+
+const MonthSchema = <T extends z.ZodTypeAny>(day: T) =>
+  record({
+    date: IsoDate.optional(),
+    month: record({
+      from_date_int: z.number().optional(),
+      from_date: IsoDate.optional(),
+      to_date_int: z.number().optional(),
+      to_date: IsoDate.optional(),
+      day: z.array(day).optional(),
+    }).optional(),
+  });
+
+export const SearchFoodsOutputSchema = record({
+  foods_search: record({
+    max_results: z.number().optional(),
+    total_results: z.number().optional(),
+    page_number: z.number().optional(),
+    results: record({ food: z.array(FoodSchema).optional() }).optional(),
+  }),
+});
+
+export const GetFoodOutputSchema = record({ food: FoodSchema });
+
+export const FindFoodByBarcodeOutputSchema = record({
+  food: FoodSchema.optional(),
+  food_id: record({ value: z.number() }).optional(),
+});
+
+export const FoodListOutputSchema = record({
+  foods: record({ food: z.array(FoodSchema).optional() }).optional(),
+});
+
+export const SearchRecipesOutputSchema = record({
+  recipes: record({
+    max_results: z.number().optional(),
+    total_results: z.number().optional(),
+    page_number: z.number().optional(),
+    recipe: z.array(RecipeSummarySchema).optional(),
+  }),
+});
+
+export const GetRecipeOutputSchema = record({ recipe: RecipeSchema });
+
+export const GetFoodEntriesOutputSchema = record({
+  date: IsoDate.optional(),
+  food_entries: record({ food_entry: z.array(FoodEntrySchema).optional() }).optional(),
+});
+
+export const GetSavedMealsOutputSchema = record({
+  saved_meals: record({ saved_meal: z.array(SavedMealSchema).optional() }).optional(),
+});
+
+export const GetSavedMealItemsOutputSchema = record({
+  saved_meal_items: record({ saved_meal_item: z.array(SavedMealItemSchema).optional() }).optional(),
+});
+
+export const GetFoodEntriesMonthOutputSchema = MonthSchema(
+  record({
+    date_int: z.number(),
+    date: IsoDate,
+    calories: z.number().optional(),
+    carbohydrate: z.number().optional(),
+    protein: z.number().optional(),
+    fat: z.number().optional(),
+  }),
+);
+
+export const GetWeightMonthOutputSchema = MonthSchema(
+  record({ date_int: z.number(), date: IsoDate, weight_kg: z.number().optional(), weight_comment: z.string().optional() }),
+);
+
+export const GetExerciseEntriesMonthOutputSchema = MonthSchema(
+  record({ date_int: z.number(), date: IsoDate, calories: z.number().optional() }),
+);
+
+export const GetExercisesOutputSchema = record({
+  exercise_types: record({
+    exercise: z.array(record({ exercise_id: z.number(), exercise_name: z.string() })).optional(),
+  }),
+});
+
+const MacroShape = {
+  calories: z.number(),
+  protein: z.number(),
+  carbohydrate: z.number(),
+  fat: z.number(),
+};
+
+export const LogFoodTextOutputSchema = z.object({
+  date: IsoDate,
+  created: z.boolean(),
+  items: z.array(
+    z.object({
+      text: z.string(),
+      query: z.string(),
+      quantity: z.number(),
+      unit: z.string().optional(),
+      meal: MealField,
+      food_id: z.number().optional(),
+      food_name: z.string().optional(),
+      brand_name: z.string().optional(),
+      serving_id: z.number().optional(),
+      serving_description: z.string().optional(),
+      number_of_units: z.number().optional(),
+      match: z.enum(['unit', 'metric', 'count', 'default']).optional(),
+      ...z.object(MacroShape).partial().shape,
+      alternatives: z.array(z.object({ food_id: z.number(), food_name: z.string() })).optional(),
+      food_entry_id: z.number().optional(),
+      error: z.string().optional(),
+    }),
+  ),
+  totals: z.object(MacroShape),
+});
+
+const NutrientTotalsSchema = z.object(NutritionShape).required();
+const MacroPercentagesSchema = z.object({ protein: z.number(), carbohydrate: z.number(), fat: z.number() });
+const NutritionSummaryShape = {
+  entry_count: z.number(),
+  totals: NutrientTotalsSchema,
+  macro_percentages: MacroPercentagesSchema.describe('Percent of macro calories from protein, carbs and fat'),
+};
+
+export const GetDailySummaryOutputSchema = z.object({
+  date: IsoDate,
+  ...NutritionSummaryShape,
+  meals: z.array(z.object({ meal: MealField, ...NutritionSummaryShape })),
+});
+
+const ReportFields = ['calories', 'carbohydrate', 'protein', 'fat', 'exercise_calories', 'net_calories'] as const;
+const reportShape = <T extends z.ZodTypeAny>(field: T) =>
+  z.object(Object.fromEntries(ReportFields.map((k) => [k, field])) as Record<(typeof ReportFields)[number], T>);
+const CaloriesDaySchema = z.object({ date: IsoDate, calories: z.number() }).nullable();
+
+export const GetNutritionReportOutputSchema = z.object({
+  start_date: IsoDate,
+  end_date: IsoDate,
+  day_count: z.number(),
+  logged_days: z.object({ food: z.number(), exercise: z.number(), weight: z.number() }),
+  totals: reportShape(z.number()),
+  averages: reportShape(z.number().nullable()).describe('Per-day averages over the days that have data (null when none)'),
+  macro_percentages: MacroPercentagesSchema,
+  min_calories_day: CaloriesDaySchema,
+  max_calories_day: CaloriesDaySchema,
+  weight: z
+    .object({ start_kg: z.number(), end_kg: z.number(), change_kg: z.number(), min_kg: z.number(), max_kg: z.number() })
+    .nullable(),
+  days: z.array(
+    z.object({ date: IsoDate, ...reportShape(z.number().optional()).shape, weight_kg: z.number().optional() }),
+  ),
+});
+
+export const GetGoalsOutputSchema = z.object({
+  profile: z.string(),
+  goals: NutritionGoalsSchema,
+  macro_targets_g: z
+    .object({ protein: z.number(), carbohydrate: z.number(), fat: z.number() })
+    .partial()
+    .describe('Daily macro targets in grams, including those derived from percentages'),
+});
+
+const GoalCheckSchema = z.object({
+  goal: z.string(),
+  kind: z.enum(['limit', 'minimum', 'target']),
+  target: z.number(),
+  actual: z.number(),
+  remaining: z.number().describe('Budget left for the period (negative when exceeded)'),
+  percent_of_goal: z.number(),
+  status: z.string(),
+});
+
+export const CheckGoalsOutputSchema = z.object({
+  profile: z.string(),
+  date: IsoDate,
+  period: z.enum(['day', 'week']),
+  start_date: IsoDate,
+  end_date: IsoDate,
+  day_count: z.number(),
+  results: z.array(GoalCheckSchema),
+  meals: z.array(z.object({ meal: MealField, ...GoalCheckSchema.shape })),
+});
+
+export const GetAuditLogOutputSchema = z.object({
+  start_date: IsoDate.nullable(),
+  end_date: IsoDate.nullable(),
+  count: z.number(),
+  entries: z.array(
+    z.object({
+      timestamp: z.string(),
+      date: IsoDate,
+      tool: z.string(),
+      profile: z.string().optional(),
+      arguments: z.record(z.unknown()),
+      result_ids: z.record(z.array(z.union([z.number(), z.string()]))).optional(),
+      outcome: z.enum(['success', 'error']),
+      error: z.string().optional(),
+    }),
+  ),
+});
+
+export type Recipe = z.infer<typeof RecipeSchema>;
+export type FoodEntry = z.infer<typeof FoodEntrySchema>;
+export type SavedMeal = z.infer<typeof SavedMealSchema>;
+export type SavedMealItem = z.infer<typeof SavedMealItemSchema>;
+export type NutritionGoals = z.infer<typeof NutritionGoalsSchema>;
+export type FoodTextItem = z.infer<typeof LogFoodTextOutputSchema>['items'][number];
+export type CachedTool = z.infer<typeof CachedToolField>;
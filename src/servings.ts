@@ -0,0 +1,192 @@
+import { round } from './nutrition.js';
+
+/** The serving fields of a `/food/v5` or `/foods/search/v5` food that conversion needs. */
+export interface Serving {
+  serving_id: number;
+  serving_description?: string;
+  metric_serving_amount?: number;
+  metric_serving_unit?: string;
+  number_of_units?: number;
+  measurement_description?: string;
+  is_default?: number;
+  calories?: number;
+  protein?: number;
+  carbohydrate?: number;
+  fat?: number;
+}
+
+type Dimension = 'mass' | 'volume';
+
+// Factors to grams (mass) and millilitres (volume)
+const UNITS: Record<string, { dimension: Dimension; factor: number }> = {
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  mg: { dimension: 'mass', factor: 0.001 },
+  oz: { dimension: 'mass', factor: 28.3495 },
+  lb: { dimension: 'mass', factor: 453.592 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  cup: { dimension: 'volume', factor: 236.588 },
+  tbsp: { dimension: 'volume', factor: 14.7868 },
+  tsp: { dimension: 'volume', factor: 4.92892 },
+  'fl oz': { dimension: 'volume', factor: 29.5735 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  litre: 'l',
+  litres: 'l',
+  liter: 'l',
+  liters: 'l',
+  cups: 'cup',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tbs: 'tbsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  floz: 'fl oz',
+  slices: 'slice',
+  pieces: 'piece',
+  servings: 'serving',
+  portion: 'serving',
+  portions: 'serving',
+};
+
+/** Count units: the amount is a number of the serving's own units. */
+export const COUNT_UNITS = ['serving', 'slice', 'piece'] as const;
+
+/** Canonical unit names, for error hints. */
+export const CANONICAL_UNITS = [...Object.keys(UNITS), ...COUNT_UNITS];
+
+/** Every unit spelling `normalizeUnit` understands, longest first (for text parsing). */
+export const UNIT_WORDS = [...Object.keys(UNITS), ...Object.keys(UNIT_ALIASES), ...COUNT_UNITS].sort(
+  (a, b) => b.length - a.length,
+);
+
+/** Canonical unit for a spelling ("Tablespoons" → "tbsp"), or undefined if unknown. */
+export function normalizeUnit(unit: string): string | undefined {
+  const key = unit.trim().toLowerCase().replace(/\.$/, '');
+  const canonical = UNIT_ALIASES[key] ?? key;
+  return canonical in UNITS || (COUNT_UNITS as readonly string[]).includes(canonical) ? canonical : undefined;
+}
+
+// "cup, chopped" and "tbsp (15 ml)" are measured in cups and tablespoons
+function servingUnit(serving: Pick<Serving, 'measurement_description'>): string | undefined {
+  const description = serving.measurement_description?.split(/[,(]/)[0];
+  return description ? normalizeUnit(description) : undefined;
+}
+
+export interface ServingMatch {
+  serving: Serving;
+  /** Value for the diary's `number_of_units`, in the serving's own measurement units. */
+  number_of_units: number;
+  /** How the amount was mapped: same unit, via metric weight/volume, counted units, or the default serving. */
+  match: 'unit' | 'metric' | 'count' | 'default';
+}
+
+/** How an `amount`/`unit` input was turned into a serving, echoed back by write tools. */
+export interface ServingConversion {
+  amount: number;
+  unit?: string;
+  serving_id: number;
+  serving_description?: string;
+  number_of_units: number;
+  match: ServingMatch['match'];
+}
+
+/**
+ * Picks the serving for `amount` of `unit` and converts the amount into that serving's
+ * `number_of_units`. Without a unit the amount counts servings' natural units ("2 eggs").
+ * Returns undefined when a weight or volume can't be mapped onto any serving.
+ */
+export function matchServing(servings: Serving[], amount: number, unit?: string): ServingMatch | undefined {
+  if (!servings.length) return undefined;
+  const canonical = unit ? normalizeUnit(unit) : undefined;
+  const preferred = [...servings].sort((a, b) => (b.is_default ?? 0) - (a.is_default ?? 0));
+  const result = (serving: Serving, units: number, match: ServingMatch['match']): ServingMatch => ({
+    serving,
+    number_of_units: round(units, 3),
+    match,
+  });
+
+  // 1. A serving measured in the requested unit ("cup", "slice", "g")
+  if (canonical && canonical !== 'serving') {
+    const same = preferred.find((s) => servingUnit(s) === canonical);
+    if (same) return result(same, amount, 'unit');
+  }
+
+  const spec = canonical ? UNITS[canonical] : undefined;
+  if (spec) {
+    // 2. Convert through the metric amount of a serving in the same dimension
+    const metricUnit = spec.dimension === 'mass' ? 'g' : 'ml';
+    for (const s of preferred) {
+      const metric = s.metric_serving_unit ? normalizeUnit(s.metric_serving_unit) : undefined;
+      if (metric !== metricUnit || !s.metric_serving_amount) continue;
+      const multiplier = (amount * spec.factor) / s.metric_serving_amount;
+      return result(s, multiplier * (s.number_of_units ?? 1), 'metric');
+    }
+    // Same dimension but measured in another unit (e.g. "tbsp" serving for "cup")
+    for (const s of preferred) {
+      const other = UNITS[servingUnit(s) ?? ''];
+      if (other?.dimension !== spec.dimension) continue;
+      return result(s, (amount * spec.factor) / other.factor, 'metric');
+    }
+    return undefined;
+  }
+
+  // 3. Counted: whole servings, or the serving's natural unit ("1 large" egg)
+  if (canonical === 'serving') {
+    const serving = preferred[0];
+    return result(serving, amount * (serving.number_of_units ?? 1), 'count');
+  }
+  const counted = preferred.find((s) => !UNITS[servingUnit(s) ?? '']);
+  if (counted) return result(counted, amount, 'count');
+  return result(preferred[0], amount * (preferred[0].number_of_units ?? 1), 'default');
+}
+
+/**
+ * `numberOfUnits` of a serving measured by weight or volume ("cup", "g"), in grams or
+ * millilitres: through its metric serving size if it has one, else the unit itself.
+ * Undefined for counted servings ("1 large").
+ */
+export function metricAmount(
+  serving: Omit<Serving, 'serving_id'>,
+  numberOfUnits: number,
+): { amount: number; unit: 'g' | 'ml' } | undefined {
+  const spec = UNITS[servingUnit(serving) ?? ''];
+  if (!spec) return undefined;
+  const metric = serving.metric_serving_unit ? normalizeUnit(serving.metric_serving_unit) : undefined;
+  if ((metric === 'g' || metric === 'ml') && serving.metric_serving_amount) {
+    return { amount: (numberOfUnits / (serving.number_of_units || 1)) * serving.metric_serving_amount, unit: metric };
+  }
+  return { amount: numberOfUnits * spec.factor, unit: spec.dimension === 'mass' ? 'g' : 'ml' };
+}
+
+/** Scales a serving's macros to `number_of_units`. */
+export function servingNutrition(serving: Serving, numberOfUnits: number) {
+  const multiplier = numberOfUnits / (serving.number_of_units || 1);
+  const scale = (value?: number) => round((value ?? 0) * multiplier);
+  return {
+    calories: scale(serving.calories),
+    protein: scale(serving.protein),
+    carbohydrate: scale(serving.carbohydrate),
+    fat: scale(serving.fat),
+  };
+}
@@ -0,0 +1,93 @@
+import { round } from './nutrition.js';
+import { metricAmount, type Serving } from './servings.js';
+
+/** A recipe ingredient, already scaled to the amount being cooked. */
+export interface ShoppingIngredient {
+  recipe_id: number;
+  food_id: number;
+  food_name?: string;
+  serving_id?: number;
+  number_of_units: number;
+  measurement_description?: string;
+}
+
+/** What `/food/v5` tells about an ingredient's food. */
+export interface ShoppingFood {
+  food_name?: string;
+  servings: Serving[];
+  category?: string;
+}
+
+export interface ShoppingQuantity {
+  amount: number;
+  unit: string;
+}
+
+export interface ShoppingListItem {
+  food_id: number;
+  food_name: string;
+  quantities: ShoppingQuantity[];
+  /** Recipes that need the food. */
+  recipe_ids: number[];
+}
+
+const UNCATEGORIZED = 'Other';
+
+// 1500 g reads better as 1.5 kg
+function displayQuantity({ amount, unit }: ShoppingQuantity): ShoppingQuantity {
+  if (unit === 'g' && amount >= 1000) return { amount: round(amount / 1000, 2), unit: 'kg' };
+  if (unit === 'ml' && amount >= 1000) return { amount: round(amount / 1000, 2), unit: 'l' };
+  return { amount: round(amount, unit === 'g' || unit === 'ml' ? 0 : 2), unit };
+}
+
+/**
+ * Merges ingredients into one line per food. Amounts of the same food are added up when their
+ * units are compatible: weights and volumes as grams or millilitres (through the food's metric
+ * serving sizes, so cups of flour add up with grams), counted units ("large", "slice") by name.
+ * Lines are grouped by food category, uncategorized foods last.
+ */
+export function buildShoppingList(ingredients: ShoppingIngredient[], foods: Map<number, ShoppingFood>) {
+  const lines = new Map<
+    number,
+    { food_id: number; food_name: string; category: string; quantities: Map<string, ShoppingQuantity>; recipe_ids: Set<number> }
+  >();
+
+  for (const ingredient of ingredients) {
+    const food = foods.get(ingredient.food_id);
+    let line = lines.get(ingredient.food_id);
+    if (!line) {
+      line = {
+        food_id: ingredient.food_id,
+        food_name: food?.food_name ?? ingredient.food_name ?? `Food ${ingredient.food_id}`,
+        category: food?.category ?? UNCATEGORIZED,
+        quantities: new Map(),
+        recipe_ids: new Set(),
+      };
+      lines.set(ingredient.food_id, line);
+    }
+    line.recipe_ids.add(ingredient.recipe_id);
+
+    const serving = food?.servings.find((s) => s.serving_id === ingredient.serving_id);
+    const measurement = ingredient.measurement_description ?? serving?.measurement_description ?? 'serving';
+    const metric = metricAmount({ ...serving, measurement_description: measurement }, ingredient.number_of_units);
+    const quantity = metric ?? { amount: ingredient.number_of_units, unit: measurement.toLowerCase() };
+    const total = line.quantities.get(quantity.unit);
+    if (total) total.amount += quantity.amount;
+    else line.quantities.set(quantity.unit, { ...quantity });
+  }
+
+  const categories = new Map<string, ShoppingListItem[]>();
+  for (const line of lines.values()) {
+    const items = categories.get(line.category) ?? [];
+    items.push({
+      food_id: line.food_id,
+      food_name: line.food_name,
+      quantities: [...line.quantities.values()].map(displayQuantity),
+      recipe_ids: [...line.recipe_ids],
+    });
+    categories.set(line.category, items);
+  }
+  return [...categories.keys()]
+    .sort((a, b) => Number(a === UNCATEGORIZED) - Number(b === UNCATEGORIZED) || a.localeCompare(b))
+    .map((category) => ({ category, items: categories.get(category) ?? [] }));
+}
@@ -0,0 +1,66 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+/** Groups that allow/deny lists can name instead of single tools. */
+export const TOOL_GROUPS = ['public', 'diary', 'favorites', 'saved_meals', 'weight', 'exercise', 'profile', 'auth'] as const;
+
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
+export interface ToolFilterOptions {
+  /** Only register tools annotated `readOnlyHint: true`. */
+  readOnly?: boolean;
+  /** Tool or group names; when non-empty, only these are registered. */
+  allow?: string[];
+  /** Tool or group names that are never registered; wins over `allow`. */
+  deny?: string[];
+}
+
+// "saved-meals" and "Saved Meals" both name the saved_meals group
+function normalizeEntry(entry: string): string {
+  return entry.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/** Comma-separated list from an env var ("public, get_food_entries"). */
+export function parseToolList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map(normalizeEntry).filter(Boolean);
+}
+
+/** Decides at registration time which tools a server exposes. */
+export class ToolFilter {
+  private readonly readOnly: boolean;
+  private readonly allow: Set<string>;
+  private readonly deny: Set<string>;
+  private readonly seen = new Set<string>();
+
+  constructor(options: ToolFilterOptions = {}) {
+    this.readOnly = !!options.readOnly;
+    this.allow = new Set((options.allow ?? []).map(normalizeEntry));
+    this.deny = new Set((options.deny ?? []).map(normalizeEntry));
+  }
+
+  get active(): boolean {
+    return this.readOnly || this.allow.size > 0 || this.deny.size > 0;
+  }
+
+  includes(name: string, group: ToolGroup, annotations?: ToolAnnotations): boolean {
+    this.seen.add(name);
+    if (this.readOnly && annotations?.readOnlyHint !== true) return false;
+    if (this.deny.has(name) || this.deny.has(group)) return false;
+    return this.allow.size === 0 || this.allow.has(name) || this.allow.has(group);
+  }
+
+  /** Allow/deny entries that name neither a group nor any tool checked so far (likely typos). */
+  unknownEntries(): string[] {
+    const known = new Set<string>([...TOOL_GROUPS, ...this.seen]);
+    return [...this.allow, ...this.deny].filter((entry) => !known.has(entry));
+  }
+
+  describe(): string {
+    const parts = [
+      this.readOnly && 'read-only',
+      this.allow.size > 0 && `allow ${[...this.allow].join(', ')}`,
+      this.deny.size > 0 && `deny ${[...this.deny].join(', ')}`,
+    ];
+    return parts.filter(Boolean).join('; ');
+  }
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { Meal } from './nutrition.js';
+
+/** One API call that reverts (part of) a change. Entries are re-created with new IDs. */
+export type UndoAction =
+  | { type: 'delete_food_entry'; food_entry_id: number }
+  | {
+      type: 'create_food_entry';
+      food_id: number;
+      food_entry_name: string;
+      serving_id: number;
+      number_of_units: number;
+      meal: Meal;
+      date: string;
+    }
+  | {
+      type: 'edit_food_entry';
+      food_entry_id: number;
+      food_entry_name?: string;
+      serving_id?: number;
+      number_of_units?: number;
+      meal: Meal;
+    }
+  | { type: 'delete_saved_meal'; saved_meal_id: number }
+  | {
+      type: 'create_saved_meal';
+      saved_meal_name: string;
+      saved_meal_description?: string;
+      meals?: string;
+      items: SavedMealItemState[];
+    }
+  | { type: 'edit_saved_meal'; saved_meal_id: number; saved_meal_name?: string; saved_meal_description?: string; meals?: string }
+  | { type: 'delete_saved_meal_item'; saved_meal_item_id: number }
+  | ({ type: 'create_saved_meal_item'; saved_meal_id: number } & SavedMealItemState)
+  | { type: 'edit_saved_meal_item'; saved_meal_item_id: number; saved_meal_item_name?: string; number_of_units?: number };
+
+export interface SavedMealItemState {
+  food_id: number;
+  saved_meal_item_name: string;
+  serving_id: number;
+  number_of_units: number;
+}
+
+export interface UndoRecord {
+  id: string;
+  timestamp: string;
+  tool: string;
+  profile: string;
+  arguments: Record<string, unknown>;
+  /** Applied in order to revert the change. */
+  actions: UndoAction[];
+  /** Custom foods the change created; FatSecret cannot delete them, so undo keeps them. */
+  custom_food_ids?: number[];
+}
+
+const DEFAULT_MAX_RECORDS = 50;
+
+/** Reverts for the most recent writes, newest last, in `undo.json` next to `config.json`. */
+export class UndoJournal {
+  private readonly path: string;
+  private readonly maxRecords: number;
+  // push and remove rewrite the whole file; running them one at a time keeps parallel tool calls
+  // from overwriting each other's records
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(path: string, maxRecords = DEFAULT_MAX_RECORDS) {
+    this.path = path;
+    this.maxRecords = maxRecords;
+  }
+
+  push(record: Omit<UndoRecord, 'id' | 'timestamp'>): Promise<void> {
+    return this.update((records) => {
+      records.push({ id: randomUUID(), timestamp: new Date().toISOString(), ...record });
+      return records.slice(-this.maxRecords);
+    });
+  }
+
+  /** The latest `count` records (optionally of one profile), newest first. */
+  async latest(count: number, profile?: string): Promise<UndoRecord[]> {
+    const records = await this.load();
+    return records
+      .filter((record) => !profile || record.profile === profile)
+      .reverse()
+      .slice(0, count);
+  }
+
+  remove(id: string): Promise<void> {
+    return this.update((records) => records.filter((record) => record.id !== id));
+  }
+
+  private update(change: (records: UndoRecord[]) => UndoRecord[]): Promise<void> {
+    const turn = this.queue.then(async () => this.save(change(await this.load())));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async load(): Promise<UndoRecord[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8')) as UndoRecord[];
+    } catch {
+      return [];
+    }
+  }
+
+  // Written to a temporary file and renamed over the journal, so readers never see half a file
+  private async save(records: UndoRecord[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(records, null, 2));
+    await rename(temp, this.path);
+  }
+}
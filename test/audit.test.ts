@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { AuditLog, redactArguments, resultIds, type AuditEntry } from '../src/audit.js';
+
+describe('redactArguments', () => {
+  it('masks secrets and keeps everything else as given', () => {
+    assert.deepEqual(
+      redactArguments({ clientSecret: 'abc', verifier_token: 'x', food_id: '33691', amount: 2 }),
+      {
+        clientSecret: '***',
+        verifier_token: '***',
+        food_id: '33691',
+        amount: 2,
+      },
+    );
+  });
+});
+
+describe('resultIds', () => {
+  it('collects IDs the API reports for new objects', () => {
+    assert.deepEqual(resultIds({ food_entry_id: { value: 17 } }), { food_entry_id: [17] });
+    assert.deepEqual(resultIds({ food_id: { value: 99 } }), { food_id: [99] });
+  });
+
+  it('collects created and changed entries but not what they refer to', () => {
+    const result = {
+      recipe_id: 102,
+      custom_food_id: 55,
+      results: [
+        { food_id: 1, serving_id: 10, food_entry_id: 201 },
+        { food_id: 2, serving_id: 20, food_entry_id: 202, conversion: { serving_id: 20 } },
+        { food_id: 2, error: 'failed' },
+      ],
+    };
+    assert.deepEqual(resultIds(result), { custom_food_id: [55], food_entry_id: [201, 202] });
+  });
+
+  it('keeps moved entries and their replacements', () => {
+    assert.deepEqual(
+      resultIds({ results: [{ food_entry_id: 5, new_food_entry_id: 6, moved: true }] }),
+      {
+        food_entry_id: [5],
+        new_food_entry_id: [6],
+      },
+    );
+  });
+
+  it('returns undefined when nothing was created or changed', () => {
+    assert.equal(resultIds({ success: { value: 1 }, food_id: 3 }), undefined);
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  const entry = (date: string, tool: string, profile = 'default'): AuditEntry => ({
+    timestamp: `${date}T12:00:00.000Z`,
+    date,
+    tool,
+    profile,
+    arguments: {},
+    outcome: 'success',
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fatsecret-audit-'));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('returns an empty list before anything is logged', async () => {
+    assert.deepEqual(await new AuditLog(join(dir, 'audit.jsonl')).query({ limit: 10 }), []);
+  });
+
+  it('queries newest first with filters and a limit, skipping broken lines', async () => {
+    const path = join(dir, 'nested', 'audit.jsonl');
+    const log = new AuditLog(path);
+    await log.append(entry('2026-10-01', 'create_food_entry'));
+    await log.append(entry('2026-10-02', 'delete_food_entry', 'alex'));
+    appendFileSync(path, '{"truncated":\n');
+    await log.append(entry('2026-10-03', 'create_food_entry'));
+
+    const tools = async (query: Partial<Parameters<AuditLog['query']>[0]>) =>
+      (await log.query({ limit: 10, ...query })).map((e) => `${e.date} ${e.tool}`);
+    assert.deepEqual(await tools({}), [
+      '2026-10-03 create_food_entry',
+      '2026-10-02 delete_food_entry',
+      '2026-10-01 create_food_entry',
+    ]);
+    assert.deepEqual(await tools({ limit: 1 }), ['2026-10-03 create_food_entry']);
+    assert.deepEqual(await tools({ start_date: '2026-10-02', end_date: '2026-10-02' }), [
+      '2026-10-02 delete_food_entry',
+    ]);
+    assert.deepEqual(await tools({ tool: 'create_food_entry', end_date: '2026-10-02' }), [
+      '2026-10-01 create_food_entry',
+    ]);
+    assert.deepEqual(await tools({ profile: 'alex' }), ['2026-10-02 delete_food_entry']);
+  });
+});
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import createClient from 'openapi-fetch';
+import { ResponseCache } from '../src/cache.js';
+import type { paths as PublicPaths } from '../src/generated/public-api.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ResponseCache', () => {
+  let dir: string;
+  let requests: string[];
+
+  const clientWith = (
+    cache: ResponseCache,
+    body: (url: URL) => unknown = (url) => ({
+      food: { food_id: url.searchParams.get('food_id') },
+    }),
+  ) => {
+    const client = createClient<PublicPaths>({
+      baseUrl: 'https://api.example.test/rest',
+      fetch: async (request: Request) => {
+        requests.push(request.url);
+        return new Response(JSON.stringify(body(new URL(request.url))), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      },
+    });
+    client.use(cache.middleware());
+    return client;
+  };
+  const getFood = (client: ReturnType<typeof clientWith>, food_id: number) =>
+    client.GET('/food/v5', { params: { query: { food_id, format: 'json' } } });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fatsecret-cache-'));
+    requests = [];
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('serves repeated GETs from disk regardless of query order', async () => {
+    const client = clientWith(new ResponseCache({ dir, maxBytes: 1024 * 1024 }));
+    const first = await client.GET('/food/v5', {
+      params: { query: { food_id: 1, format: 'json' } },
+    });
+    const second = await client.GET('/food/v5', {
+      params: { query: { format: 'json', food_id: 1 } },
+    });
+    assert.equal(requests.length, 1);
+    assert.deepEqual(second.data, first.data);
+    assert.equal(second.response.headers.get('X-Cache'), 'hit');
+  });
+
+  it('refetches once the TTL has passed', async (t) => {
+    let now = Date.now();
+    t.mock.method(Date, 'now', () => now);
+    const cache = new ResponseCache({ dir, maxBytes: 1024 * 1024, ttls: { '/food/v5': DAY_MS } });
+    const client = clientWith(cache);
+
+    await getFood(client, 1);
+    now += DAY_MS - 1;
+    await getFood(client, 1);
+    assert.equal(requests.length, 1);
+    now += 1;
+    await getFood(client, 1);
+    assert.equal(requests.length, 2);
+  });
+
+  it('does not cache error bodies or uncached endpoints', async () => {
+    const cache = new ResponseCache({ dir, maxBytes: 1024 * 1024, ttls: { '/food/v5': DAY_MS } });
+    const failing = clientWith(cache, () => ({ error: { code: 106, message: 'Invalid ID' } }));
+    await getFood(failing, 1);
+    await getFood(failing, 1);
+    await failing.GET('/brands/v2', { params: { query: { format: 'json' } } });
+    assert.equal(requests.length, 3);
+    assert.equal((await cache.stats()).entries, 0);
+  });
+
+  it('evicts the least recently used entries beyond maxBytes', async () => {
+    const probe = new ResponseCache({ dir, maxBytes: 1024 * 1024 });
+    await getFood(clientWith(probe), 1);
+    const entryBytes = (await probe.stats()).bytes;
+    await probe.clear();
+
+    const cache = new ResponseCache({ dir, maxBytes: Math.floor(entryBytes * 2.5) });
+    const client = clientWith(cache);
+    await getFood(client, 1);
+    await sleep(20);
+    await getFood(client, 2);
+    await sleep(20);
+    await getFood(client, 1); // hit: 1 is now more recent than 2
+    await sleep(20);
+    await getFood(client, 3); // evicts 2
+    assert.equal((await cache.stats()).entries, 2);
+
+    requests = [];
+    await getFood(client, 1);
+    await getFood(client, 3);
+    assert.deepEqual(requests, []);
+    await getFood(client, 2);
+    assert.equal(requests.length, 1);
+  });
+
+  it('clears one endpoint or everything', async () => {
+    const cache = new ResponseCache({ dir, maxBytes: 1024 * 1024 });
+    const client = clientWith(cache);
+    await getFood(client, 1);
+    await client.GET('/brands/v2', { params: { query: { format: 'json' } } });
+
+    assert.equal((await cache.clear('/brands/v2')).removed, 1);
+    assert.equal((await cache.stats()).entries, 1);
+    assert.equal((await cache.clear()).removed, 1);
+    assert.equal((await cache.stats()).entries, 0);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import { ConfirmationStore } from '../src/confirm.js';
+import { startServer, type TestServer } from './helpers/server.js';
+
+describe('ConfirmationStore', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('accepts a token once, for the same tool and arguments', () => {
+    const store = new ConfirmationStore();
+    const token = store.issue('delete_food_entry', { food_entry_id: 1 });
+    assert.equal(store.consume(token, 'delete_food_entry', { food_entry_id: 1 }), true);
+    assert.equal(store.consume(token, 'delete_food_entry', { food_entry_id: 1 }), false);
+  });
+
+  it('spends a token used for another call', () => {
+    const store = new ConfirmationStore();
+    const token = store.issue('delete_food_entry', { food_entry_id: 1 });
+    assert.equal(store.consume(token, 'delete_food_entry', { food_entry_id: 2 }), false);
+    assert.equal(store.consume(token, 'delete_food_entry', { food_entry_id: 1 }), false);
+    const other = store.issue('delete_food_entry', { food_entry_id: 1 });
+    assert.equal(store.consume(other, 'delete_saved_meal', { food_entry_id: 1 }), false);
+  });
+
+  it('expires tokens after the TTL', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new ConfirmationStore(1000);
+    const fresh = store.issue('set_goals', {});
+    const stale = store.issue('set_goals', {});
+    mock.timers.tick(999);
+    assert.equal(store.consume(fresh, 'set_goals', {}), true);
+    mock.timers.tick(1);
+    assert.equal(store.consume(stale, 'set_goals', {}), false);
+  });
+});
+
+describe('confirm mode', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startServer({ env: { FATSECRET_CONFIRM_WRITES: '1' } });
+  });
+  after(() => server.close());
+
+  it('previews and then applies a write whose tool has an output schema', async () => {
+    const { tools } = await server.client.listTools();
+    assert.equal(tools.find((t) => t.name === 'set_goals')?.outputSchema, undefined);
+    assert.ok(tools.find((t) => t.name === 'get_goals')?.outputSchema);
+
+    const preview = await server.call('set_goals', { calories: 1800 });
+    assert.equal(preview.isError, undefined);
+    const { dry_run, confirmation_token } = preview.structuredContent as {
+      dry_run: boolean;
+      confirmation_token: string;
+    };
+    assert.equal(dry_run, true);
+    assert.match(confirmation_token, /^[0-9a-f-]{36}$/);
+    assert.deepEqual((await server.call('get_goals')).structuredContent?.goals, {});
+
+    const applied = await server.call('set_goals', { calories: 1800, confirmation_token });
+    assert.equal(applied.isError, undefined);
+    assert.deepEqual(applied.structuredContent, {
+      profile: 'default',
+      goals: { calories: 1800 },
+      macro_targets_g: {},
+    });
+  });
+
+  it('rejects a token for different arguments', async () => {
+    const preview = await server.call('set_goals', { calories: 2000 });
+    const { confirmation_token } = preview.structuredContent as { confirmation_token: string };
+    const result = await server.call('set_goals', { calories: 2500, confirmation_token });
+    assert.equal(result.isError, true);
+    assert.deepEqual((await server.call('get_goals')).structuredContent?.goals, { calories: 1800 });
+  });
+});
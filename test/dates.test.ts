@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it, mock } from 'node:test';
+import {
+  dateToDays,
+  datesInRange,
+  daysToDate,
+  monthsInRange,
+  parseDateInput,
+  setTimeZone,
+  today,
+  weekRange,
+} from '../src/dates.js';
+
+describe('dateToDays / daysToDate', () => {
+  it('counts days since 1970-01-01', () => {
+    assert.equal(dateToDays('1970-01-01'), 0);
+    assert.equal(dateToDays('2024-10-04'), 20000);
+    assert.equal(dateToDays('1969-12-31'), -1);
+  });
+
+  it('round-trips across leap days', () => {
+    for (const date of ['2024-02-28', '2024-02-29', '2024-03-01', '2100-03-01']) {
+      assert.equal(daysToDate(dateToDays(date)), date);
+    }
+  });
+});
+
+describe('ranges', () => {
+  it('lists every day of a range', () => {
+    assert.deepEqual(datesInRange('2024-02-28', '2024-03-01'), [
+      '2024-02-28',
+      '2024-02-29',
+      '2024-03-01',
+    ]);
+    assert.deepEqual(datesInRange('2024-03-02', '2024-03-01'), []);
+  });
+
+  it('lists the first day of each month touched', () => {
+    assert.deepEqual(monthsInRange('2024-11-30', '2025-01-01'), [
+      '2024-11-01',
+      '2024-12-01',
+      '2025-01-01',
+    ]);
+  });
+
+  it('finds the Monday–Sunday week of a date', () => {
+    assert.deepEqual(weekRange('2026-10-14'), ['2026-10-12', '2026-10-18']);
+    assert.deepEqual(weekRange('2026-10-18'), ['2026-10-12', '2026-10-18']);
+    assert.deepEqual(weekRange('2026-10-19'), ['2026-10-19', '2026-10-25']);
+  });
+});
+
+// Wednesday 2026-10-14 02:00 UTC, still Tuesday evening in Los Angeles
+const NOW = Date.parse('2026-10-14T02:00:00Z');
+
+describe('today', () => {
+  before(() => mock.timers.enable({ apis: ['Date'], now: NOW }));
+  after(() => {
+    mock.timers.reset();
+    setTimeZone(undefined);
+  });
+
+  it('uses the configured timezone', () => {
+    setTimeZone('UTC');
+    assert.equal(today(), '2026-10-14');
+    setTimeZone('America/Los_Angeles');
+    assert.equal(today(), '2026-10-13');
+  });
+
+  it('rejects unknown timezones', () => {
+    assert.throws(() => setTimeZone('Mars/Olympus_Mons'), RangeError);
+  });
+});
+
+describe('parseDateInput', () => {
+  before(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+    setTimeZone('UTC');
+  });
+  after(() => {
+    mock.timers.reset();
+    setTimeZone(undefined);
+  });
+
+  it('accepts real ISO dates only', () => {
+    assert.equal(parseDateInput('2024-02-29'), '2024-02-29');
+    assert.equal(parseDateInput('2025-02-29'), undefined);
+    assert.equal(parseDateInput('2025-13-01'), undefined);
+  });
+
+  it('resolves named days and offsets', () => {
+    const cases: Record<string, string> = {
+      today: '2026-10-14',
+      Yesterday: '2026-10-13',
+      tomorrow: '2026-10-15',
+      '-3d': '2026-10-11',
+      '+1w': '2026-10-21',
+      '-1 w': '2026-10-07',
+      '3 days ago': '2026-10-11',
+      '1 day ago': '2026-10-13',
+      '2 weeks ago': '2026-09-30',
+    };
+    for (const [input, expected] of Object.entries(cases))
+      assert.equal(parseDateInput(input), expected, input);
+  });
+
+  it('resolves weekdays', () => {
+    const cases: Record<string, string> = {
+      monday: '2026-10-12',
+      wednesday: '2026-10-07',
+      '  Last   Monday ': '2026-10-12',
+      'last wednesday': '2026-10-07',
+      'next wednesday': '2026-10-21',
+      'next thursday': '2026-10-15',
+      'this monday': '2026-10-12',
+      'this friday': '2026-10-16',
+      'this sunday': '2026-10-18',
+    };
+    for (const [input, expected] of Object.entries(cases))
+      assert.equal(parseDateInput(input), expected, input);
+  });
+
+  it('follows the configured timezone', () => {
+    setTimeZone('America/Los_Angeles');
+    try {
+      assert.equal(parseDateInput('today'), '2026-10-13');
+      assert.equal(parseDateInput('yesterday'), '2026-10-12');
+    } finally {
+      setTimeZone('UTC');
+    }
+  });
+
+  it('returns undefined for anything else', () => {
+    for (const input of ['someday', 'last month', '3 months ago', '', 'next', '14/10/2026']) {
+      assert.equal(parseDateInput(input), undefined, input);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AuthenticationError,
+  FatSecretApiError,
+  InvalidParameterError,
+  MissingParameterError,
+  PremierOnlyError,
+  RateLimitError,
+  apiErrorFromCode,
+  errorResult,
+  unwrap,
+} from '../src/errors.js';
+
+const response = (status = 200, statusText = '') => new Response(null, { status, statusText });
+
+describe('apiErrorFromCode', () => {
+  it('maps error codes to error classes', () => {
+    assert.ok(apiErrorFromCode(5, 'Invalid consumer key') instanceof AuthenticationError);
+    assert.ok(apiErrorFromCode(12, 'Premier only') instanceof PremierOnlyError);
+    assert.ok(apiErrorFromCode(101, 'Missing parameter') instanceof MissingParameterError);
+    assert.ok(apiErrorFromCode(106, 'Invalid ID') instanceof InvalidParameterError);
+    assert.equal(apiErrorFromCode(500, 'Other').constructor, FatSecretApiError);
+  });
+
+  it('points clock problems at the system clock, not at re-authorizing', () => {
+    for (const code of [6, 7]) {
+      const error = apiErrorFromCode(code, 'Invalid timestamp');
+      assert.ok(error instanceof AuthenticationError);
+      assert.match(error.hint ?? '', /system clock/);
+      assert.doesNotMatch(error.hint ?? '', /start_auth/);
+    }
+    for (const code of [9, 13]) {
+      assert.match(apiErrorFromCode(code, 'Invalid token').hint ?? '', /start_auth/);
+    }
+    assert.match(apiErrorFromCode(4, 'Invalid signature').hint ?? '', /setup_credentials/);
+  });
+
+  it('recognizes rate limits by status or message', () => {
+    assert.ok(apiErrorFromCode(0, 'Error', 429) instanceof RateLimitError);
+    assert.ok(apiErrorFromCode(22, 'Too many requests') instanceof RateLimitError);
+  });
+});
+
+describe('unwrap', () => {
+  it('returns the data of a successful response', () => {
+    assert.deepEqual(unwrap({ data: { food_id: 1 }, response: response() }), { food_id: 1 });
+  });
+
+  it('throws the coded error of an error body that came with status 200', () => {
+    assert.throws(
+      () =>
+        unwrap({ data: { error: { code: '7', message: 'Invalid nonce' } }, response: response() }),
+      (err: unknown) =>
+        err instanceof AuthenticationError &&
+        err.code === 7 &&
+        err.status === 200 &&
+        err.message === 'Invalid nonce',
+    );
+  });
+
+  it('throws the coded error of an HTTP error with an error body', () => {
+    assert.throws(
+      () =>
+        unwrap({
+          error: { error: { code: 106, message: 'Invalid ID' } },
+          response: response(400, 'Bad Request'),
+        }),
+      (err: unknown) =>
+        err instanceof InvalidParameterError && err.code === 106 && err.status === 400,
+    );
+  });
+
+  it('describes HTTP errors without an error body by status', () => {
+    assert.throws(
+      () => unwrap({ error: 'upstream down', response: response(503, 'Service Unavailable') }),
+      (err: unknown) =>
+        err instanceof FatSecretApiError &&
+        err.code === undefined &&
+        err.message ===
+          'FatSecret API request failed with HTTP 503 Service Unavailable: upstream down' &&
+        /Try again in a moment/.test(err.hint ?? ''),
+    );
+    assert.throws(
+      () => unwrap({ error: '', response: response(429) }),
+      (err: unknown) => err instanceof RateLimitError && err.status === 429,
+    );
+    assert.throws(
+      () => unwrap({ error: '', response: response(404) }),
+      (err: unknown) => err instanceof FatSecretApiError && err.hint === undefined,
+    );
+  });
+});
+
+describe('errorResult', () => {
+  it('reports the error class, code and hint', () => {
+    const result = errorResult(apiErrorFromCode(6, 'Invalid timestamp'));
+    assert.equal(result.isError, true);
+    const payload = JSON.parse((result.content[0] as { text: string }).text);
+    assert.equal(payload.error, 'AuthenticationError');
+    assert.equal(payload.code, 6);
+    assert.match(payload.hint, /system clock/);
+    assert.deepEqual(JSON.parse((errorResult('boom').content[0] as { text: string }).text), {
+      error: 'Error',
+      message: 'boom',
+    });
+  });
+});
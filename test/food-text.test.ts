@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseFoodText } from '../src/food-text.js';
+
+const summary = (text: string) =>
+  parseFoodText(text).map(({ quantity, unit, food, meal }) => ({ quantity, unit, food, meal }));
+
+describe('parseFoodText', () => {
+  it('reads number words, units and a trailing meal', () => {
+    assert.deepEqual(summary('two eggs and a slice of whole-wheat toast for breakfast'), [
+      { quantity: 2, unit: undefined, food: 'eggs', meal: 'breakfast' },
+      { quantity: 1, unit: 'slice', food: 'whole-wheat toast', meal: 'breakfast' },
+    ]);
+  });
+
+  it('keeps "and" inside a food name when no quantity follows', () => {
+    assert.deepEqual(summary('mac and cheese'), [
+      { quantity: 1, unit: undefined, food: 'mac and cheese', meal: undefined },
+    ]);
+  });
+
+  it('parses fractions, decimals and unit aliases', () => {
+    assert.deepEqual(
+      summary('1/2 cup rice, 1 1/2 tablespoons olive oil; ½ banana, 150.5 grams chicken'),
+      [
+        { quantity: 0.5, unit: 'cup', food: 'rice', meal: undefined },
+        { quantity: 1.5, unit: 'tbsp', food: 'olive oil', meal: undefined },
+        { quantity: 0.5, unit: undefined, food: 'banana', meal: undefined },
+        { quantity: 150.5, unit: 'g', food: 'chicken', meal: undefined },
+      ],
+    );
+  });
+
+  it('reads "half a cup" and "a couple of"', () => {
+    assert.deepEqual(summary('I had half a cup of oats and a couple of eggs'), [
+      { quantity: 0.5, unit: 'cup', food: 'oats', meal: undefined },
+      { quantity: 2, unit: undefined, food: 'eggs', meal: undefined },
+    ]);
+  });
+
+  it('applies leading meal labels to the items after them', () => {
+    assert.deepEqual(summary('lunch: 200g salad, an apple\nfor supper 2 slices pizza'), [
+      { quantity: 200, unit: 'g', food: 'salad', meal: 'lunch' },
+      { quantity: 1, unit: undefined, food: 'apple', meal: 'lunch' },
+      { quantity: 2, unit: 'slice', food: 'pizza', meal: 'dinner' },
+    ]);
+  });
+
+  it('applies a trailing meal only back to the previous meal phrase', () => {
+    assert.deepEqual(
+      summary('oatmeal for breakfast, a sandwich and 1 coffee for lunch').map((i) => i.meal),
+      ['breakfast', 'lunch', 'lunch'],
+    );
+  });
+
+  it('keeps the source fragment and skips empty items', () => {
+    const items = parseFoodText('3 x crackers,, ');
+    assert.equal(items.length, 1);
+    assert.equal(items[0].text, '3 x crackers');
+    assert.equal(items[0].quantity, 3);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { InvalidParameterError } from '../src/errors.js';
+import {
+  checkGoals,
+  loadGoalsFile,
+  macroTargets,
+  mergeGoals,
+  saveGoalsFile,
+} from '../src/goals.js';
+import { emptyTotals } from '../src/nutrition.js';
+
+describe('goals file', () => {
+  it('saves and loads goals per profile, and treats a missing file as empty', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fatsecret-goals-'));
+    try {
+      const path = join(dir, 'nested', 'goals.json');
+      assert.deepEqual(loadGoalsFile(path), {});
+      saveGoalsFile(path, { default: { calories: 2000 } });
+      assert.deepEqual(loadGoalsFile(path), { default: { calories: 2000 } });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('mergeGoals', () => {
+  it('keeps a single form per macro', () => {
+    const merged = mergeGoals(
+      { calories: 2000, protein_pct: 30, fat_g: 70 },
+      { protein_g: 150, fat_pct: 30 },
+    );
+    assert.deepEqual(merged, { calories: 2000, protein_g: 150, fat_pct: 30 });
+  });
+
+  it('clears keys before applying updates and merges meal budgets', () => {
+    const merged = mergeGoals(
+      { calories: 2000, sugar_g: 50, meal_calories: { breakfast: 400 } },
+      { meal_calories: { dinner: 700 } },
+      ['sugar_g'],
+    );
+    assert.deepEqual(merged, { calories: 2000, meal_calories: { breakfast: 400, dinner: 700 } });
+  });
+
+  it('rejects percentages without calories or above 100% in total', () => {
+    assert.throws(() => mergeGoals({}, { protein_pct: 30 }), InvalidParameterError);
+    assert.throws(
+      () => mergeGoals({ calories: 2000 }, { protein_pct: 40, carbohydrate_pct: 40, fat_pct: 30 }),
+      /add up to 110%/,
+    );
+  });
+});
+
+describe('macroTargets', () => {
+  it('converts percentages of the calorie budget to grams', () => {
+    assert.deepEqual(
+      macroTargets({ calories: 2000, protein_pct: 30, carbohydrate_g: 200, fat_pct: 25 }),
+      {
+        protein: 150,
+        carbohydrate: 200,
+        fat: 55.6,
+      },
+    );
+  });
+});
+
+describe('checkGoals', () => {
+  const totals = { ...emptyTotals(), calories: 2100, protein: 148, fiber: 20, sodium: 1500 };
+  const summary = {
+    totals,
+    meals: [{ meal: 'dinner' as const, totals: { ...emptyTotals(), calories: 900 } }],
+  };
+
+  it('rates limits, targets and minimums', () => {
+    const { results, meals } = checkGoals(
+      {
+        calories: 2000,
+        protein_g: 150,
+        fiber_g: 30,
+        sodium_mg: 2300,
+        meal_calories: { dinner: 800, lunch: 600 },
+      },
+      summary,
+      1,
+    );
+    const status = Object.fromEntries(results.map((r) => [r.goal, r.status]));
+    assert.deepEqual(status, {
+      calories: 'over',
+      protein_g: 'on_target',
+      fiber_g: 'below',
+      sodium_mg: 'within',
+    });
+    assert.equal(results[0].remaining, -100);
+    assert.deepEqual(
+      meals.map((m) => [m.meal, m.status, m.actual]),
+      [
+        ['lunch', 'within', 0],
+        ['dinner', 'over', 900],
+      ],
+    );
+  });
+
+  it('scales daily goals to the number of days', () => {
+    const { results } = checkGoals({ calories: 2000 }, summary, 7);
+    assert.equal(results[0].target, 14000);
+    assert.equal(results[0].status, 'within');
+  });
+});
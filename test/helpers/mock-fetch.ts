@@ -0,0 +1,49 @@
+// Preloaded into the server under test (`--import`): answers FatSecret API calls from the
+// fixtures file in FATSECRET_TEST_FIXTURES, keyed "METHOD /path" (without `/rest`), optionally
+// with query parameters the request must have ("GET /food/v5?food_id=1") and "#n" to answer only
+// the n-th request to that method and path ("GET /food-entries/v2#2"); the most specific wins.
+import { appendFileSync, readFileSync } from 'node:fs';
+
+const fixtures = JSON.parse(
+  readFileSync(process.env.FATSECRET_TEST_FIXTURES ?? '', 'utf-8'),
+) as Record<string, unknown>;
+
+// Requests so far per "METHOD /path"
+const counts = new Map<string, number>();
+
+function findFixture(key: string, url: URL, count: number): string | undefined {
+  let best: string | undefined;
+  let bestScore = -1;
+  for (const fixture of Object.keys(fixtures)) {
+    const [target, nth] = fixture.split('#');
+    const [path, query = ''] = target.split('?');
+    const params = [...new URLSearchParams(query)];
+    if (path !== key || !params.every(([name, value]) => url.searchParams.get(name) === value)) {
+      continue;
+    }
+    if (nth !== undefined && Number(nth) !== count) continue;
+    const score = params.length + (nth === undefined ? 0 : 100);
+    if (score > bestScore) {
+      best = fixture;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+globalThis.fetch = async (...params: Parameters<typeof fetch>) => {
+  const request = new Request(...params);
+  const url = new URL(request.url);
+  if (url.hostname === 'oauth.fatsecret.com') {
+    return Response.json({ access_token: 'test', expires_in: 3600 });
+  }
+
+  const key = `${request.method} ${url.pathname.replace(/^\/rest/, '')}`;
+  if (process.env.FATSECRET_TEST_REQUESTS) {
+    appendFileSync(process.env.FATSECRET_TEST_REQUESTS, `${key}\n`);
+  }
+  const count = (counts.get(key) ?? 0) + 1;
+  counts.set(key, count);
+  const fixture = findFixture(key, url, count);
+  return fixture ? Response.json(fixtures[fixture]) : new Response('Not found', { status: 404 });
+};
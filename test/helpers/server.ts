@@ -0,0 +1,86 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+export interface TestServer {
+  client: Client;
+  /** The scratch `~/.fatsecret-mcp` directory. */
+  configDir: string;
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  /** "METHOD /path" of every API request made so far. */
+  requests(): string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Runs the server over stdio in a scratch HOME with saved credentials and an authorized default
+ * profile; `config` overrides entries of its `config.json` (undefined removes one). API calls are
+ * answered from `fixtures` (see mock-fetch.ts); anything else gets a 404.
+ */
+export async function startServer(
+  options: {
+    env?: Record<string, string>;
+    config?: Record<string, unknown>;
+    fixtures?: Record<string, unknown>;
+  } = {},
+): Promise<TestServer> {
+  const home = mkdtempSync(join(tmpdir(), 'fatsecret-mcp-test-'));
+  const configDir = join(home, '.fatsecret-mcp');
+  mkdirSync(configDir);
+  writeFileSync(
+    join(configDir, 'config.json'),
+    JSON.stringify({
+      clientId: 'id',
+      clientSecret: 'secret',
+      consumerSecret: 'consumer',
+      accessToken: 'token',
+      accessTokenSecret: 'token-secret',
+      ...options.config,
+    }),
+  );
+  const fixturesPath = join(home, 'fixtures.json');
+  const requestsPath = join(home, 'requests.log');
+  writeFileSync(fixturesPath, JSON.stringify(options.fixtures ?? {}));
+  writeFileSync(requestsPath, '');
+
+  const env = Object.fromEntries(
+    Object.entries(process.env).filter(
+      (entry): entry is [string, string] =>
+        !entry[0].startsWith('FATSECRET_') && entry[1] !== undefined,
+    ),
+  );
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', '--import', './test/helpers/mock-fetch.ts', 'src/index.ts'],
+    cwd: ROOT,
+    env: {
+      ...env,
+      HOME: home,
+      FATSECRET_CACHE: 'off',
+      FATSECRET_TEST_FIXTURES: fixturesPath,
+      FATSECRET_TEST_REQUESTS: requestsPath,
+      ...options.env,
+    },
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'fatsecret-mcp-test', version: '1.0.0' });
+  await client.connect(transport);
+
+  return {
+    client,
+    configDir,
+    call: async (name, args = {}) =>
+      (await client.callTool({ name, arguments: args })) as CallToolResult,
+    requests: () => readFileSync(requestsPath, 'utf-8').split('\n').filter(Boolean),
+    close: async () => {
+      await client.close();
+      rmSync(home, { recursive: true, force: true });
+    },
+  };
+}
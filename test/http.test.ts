@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { request } from 'node:http';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'fatsecret-mcp-test', version: '1.0.0' },
+  },
+});
+
+/** Sends a request with any Host header (fetch does not allow setting it). */
+function send(
+  url: URL,
+  options: { method?: string; host?: string; body?: string | Buffer } = {},
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: options.method ?? 'GET',
+        headers: {
+          Host: options.host ?? url.host,
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf-8') }),
+        );
+      },
+    );
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+describe('HTTP transport', () => {
+  let home: string;
+  let child: ChildProcess;
+  let base: URL;
+
+  before(async () => {
+    home = mkdtempSync(join(tmpdir(), 'fatsecret-mcp-http-'));
+    const env = Object.fromEntries(
+      Object.entries(process.env).filter(
+        (entry): entry is [string, string] =>
+          !entry[0].startsWith('FATSECRET_') && entry[1] !== undefined,
+      ),
+    );
+    child = spawn(
+      process.execPath,
+      ['--import', 'tsx', 'src/index.ts', '--transport', 'http', '--port', '0'],
+      { cwd: ROOT, env: { ...env, HOME: home }, stdio: ['ignore', 'ignore', 'pipe'] },
+    );
+    // The startup log names the port the OS picked
+    base = await new Promise<URL>((resolve, reject) => {
+      let output = '';
+      child.stderr?.on('data', (chunk: Buffer) => {
+        output += chunk.toString('utf-8');
+        const match = /listening on (http:\/\/\S+)/.exec(output);
+        if (match) resolve(new URL(match[1]));
+      });
+      child.once('exit', (code) => reject(new Error(`Server exited with ${code}: ${output}`)));
+    });
+  });
+
+  after(async () => {
+    if (child.exitCode === null) {
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      child.kill('SIGTERM');
+      await exited;
+    }
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('logs the port it listens on', () => {
+    assert.equal(base.pathname, '/mcp');
+    assert.notEqual(base.port, '0');
+  });
+
+  it('answers the health check', async () => {
+    const res = await send(new URL('/healthz', base));
+    assert.equal(res.status, 200);
+    assert.equal(JSON.parse(res.body).status, 'ok');
+  });
+
+  it('accepts its own Host and refuses a foreign one', async () => {
+    assert.equal((await send(base, { method: 'POST', body: INITIALIZE })).status, 200);
+    const res = await send(base, {
+      method: 'POST',
+      host: `evil.example:${base.port}`,
+      body: INITIALIZE,
+    });
+    assert.equal(res.status, 403);
+  });
+
+  it('rejects bodies over 1 MB', async () => {
+    const res = await send(base, {
+      method: 'POST',
+      body: Buffer.alloc(1024 * 1024 + 1, ' '),
+    });
+    assert.equal(res.status, 413);
+    assert.match(JSON.parse(res.body).error.message, /exceeds 1048576 bytes/);
+  });
+});
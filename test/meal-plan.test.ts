@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  mealBudgets,
+  planMeals,
+  recipeSearchFilters,
+  summarizePlanDay,
+  type PlanRecipe,
+} from '../src/meal-plan.js';
+
+const recipe = (
+  recipe_id: number,
+  calories: number,
+  protein = 0,
+  carbohydrate = 0,
+  fat = 0,
+): PlanRecipe => ({
+  recipe_id,
+  recipe_name: `Recipe ${recipe_id}`,
+  calories,
+  protein,
+  carbohydrate,
+  fat,
+});
+
+describe('mealBudgets', () => {
+  it('splits the calories by the usual meal shares', () => {
+    assert.deepEqual(mealBudgets(2000, ['breakfast', 'lunch', 'dinner', 'other']), [
+      { meal: 'breakfast', calories: 500 },
+      { meal: 'lunch', calories: 600 },
+      { meal: 'dinner', calories: 700 },
+      { meal: 'other', calories: 200 },
+    ]);
+  });
+
+  it('keeps stored meal budgets and shares out the rest', () => {
+    assert.deepEqual(mealBudgets(2000, ['breakfast', 'lunch', 'dinner'], { dinner: 800 }), [
+      { meal: 'breakfast', calories: 545 },
+      { meal: 'lunch', calories: 655 },
+      { meal: 'dinner', calories: 800 },
+    ]);
+  });
+});
+
+describe('recipeSearchFilters', () => {
+  it('covers the serving range the planner picks from', () => {
+    assert.deepEqual(recipeSearchFilters('dinner', 600, { calories: 2000 }, false), {
+      recipe_types: 'Main Dish',
+      'calories.from': 300,
+      'calories.to': 1200,
+    });
+  });
+
+  it('adds macro percentage ranges around the targets', () => {
+    const filters = recipeSearchFilters(
+      'breakfast',
+      500,
+      { calories: 2000, protein: 150, fat: 2 },
+      true,
+    );
+    assert.equal(filters['protein_percentage.from'], 20);
+    assert.equal(filters['protein_percentage.to'], 40);
+    assert.equal(filters['fat_percentage.from'], 0);
+    assert.equal(filters['carb_percentage.from'], undefined);
+  });
+});
+
+describe('planMeals', () => {
+  const budgets = [
+    { meal: 'breakfast' as const, calories: 500 },
+    { meal: 'dinner' as const, calories: 700 },
+  ];
+
+  it('picks recipes and servings that fit the targets', () => {
+    const { days, repeats } = planMeals({
+      days: 1,
+      targets: { calories: 1200 },
+      budgets,
+      candidates: {
+        breakfast: [recipe(1, 900), recipe(2, 250)],
+        dinner: [recipe(3, 350), recipe(4, 1500)],
+      },
+    });
+    assert.equal(repeats, 0);
+    assert.deepEqual(
+      days[0].map(({ meal, recipe, servings }) => [meal, recipe.recipe_id, servings]),
+      [
+        ['breakfast', 2, 2],
+        ['dinner', 3, 2],
+      ],
+    );
+  });
+
+  it('avoids repeating recipes while unused ones remain, and counts repeats', () => {
+    const { days, repeats } = planMeals({
+      days: 3,
+      targets: { calories: 1200 },
+      budgets,
+      candidates: {
+        breakfast: [recipe(1, 500), recipe(2, 500)],
+        dinner: [recipe(3, 700), recipe(4, 700)],
+      },
+    });
+    const ids = days.map((day) => day.map((pick) => pick.recipe.recipe_id));
+    assert.notDeepEqual(ids[0], ids[1]);
+    assert.deepEqual(new Set([...ids[0], ...ids[1]]), new Set([1, 2, 3, 4]));
+    assert.equal(repeats, 2);
+  });
+
+  it('leaves out meals without candidates', () => {
+    const { days } = planMeals({
+      days: 1,
+      targets: { calories: 1200 },
+      budgets,
+      candidates: { dinner: [recipe(3, 700)] },
+    });
+    assert.deepEqual(
+      days[0].map((pick) => pick.meal),
+      ['dinner'],
+    );
+  });
+});
+
+describe('summarizePlanDay', () => {
+  it('totals the day and flags targets missed beyond the tolerance', () => {
+    const meals = [
+      { meal: 'lunch' as const, recipe: recipe(1, 400, 30, 40, 10), servings: 1.5 },
+      { meal: 'dinner' as const, recipe: recipe(2, 900, 20, 100, 40), servings: 1 },
+    ];
+    const summary = summarizePlanDay(meals, { calories: 1500, protein: 100, fat: 60 }, 0.1);
+    assert.deepEqual(summary.totals, { calories: 1500, protein: 65, carbohydrate: 160, fat: 55 });
+    assert.equal(summary.meals[0].calories, 600);
+    assert.equal(summary.within_tolerance, false);
+    assert.deepEqual(summary.off_target, [
+      { goal: 'protein', target: 100, actual: 65, off_by_pct: -35 },
+    ]);
+  });
+});
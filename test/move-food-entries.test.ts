@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { startServer } from './helpers/server.js';
+
+// Two breakfast entries on 2025-01-01 (day 20089)
+const ENTRIES = {
+  food_entries: {
+    food_entry: [1, 2].map((id) => ({
+      food_entry_id: String(id),
+      food_entry_name: `Food ${id}`,
+      food_id: String(10 + id),
+      serving_id: '100',
+      number_of_units: '1.00',
+      meal: 'Breakfast',
+      date_int: '20089',
+    })),
+  },
+};
+const CREATED = {
+  'POST /food-entries/v1?food_id=11': { food_entry_id: { value: '101' } },
+  'POST /food-entries/v1?food_id=12': { food_entry_id: { value: '102' } },
+};
+const DELETED = { success: { value: '1' } };
+const args = { from_date: '2025-01-01', to_date: '2025-01-02', to_meal: 'lunch' };
+
+type MoveResult = {
+  moved: number;
+  failed: number;
+  results: { food_entry_id: number; new_food_entry_id?: number; moved: boolean; error?: string }[];
+};
+
+describe('move_food_entries', () => {
+  it('deletes the originals only after every entry was re-created', async () => {
+    const server = await startServer({
+      fixtures: {
+        'GET /food-entries/v2': ENTRIES,
+        ...CREATED,
+        'DELETE /food-entries/v1?food_entry_id=1': DELETED,
+        'DELETE /food-entries/v1?food_entry_id=2': DELETED,
+      },
+    });
+    try {
+      const result = await server.call('move_food_entries', args);
+      const { moved, failed, results } = result.structuredContent as MoveResult;
+      assert.equal(moved, 2);
+      assert.equal(failed, 0);
+      assert.deepEqual(
+        results.map((item) => [item.food_entry_id, item.new_food_entry_id, item.moved]),
+        [
+          [1, 101, true],
+          [2, 102, true],
+        ],
+      );
+      const writes = server.requests().filter((request) => !request.startsWith('GET'));
+      assert.deepEqual(writes, [
+        'POST /food-entries/v1',
+        'POST /food-entries/v1',
+        'DELETE /food-entries/v1',
+        'DELETE /food-entries/v1',
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('leaves the originals alone when an entry cannot be re-created', async () => {
+    const server = await startServer({
+      fixtures: {
+        'GET /food-entries/v2': ENTRIES,
+        'POST /food-entries/v1?food_id=11': CREATED['POST /food-entries/v1?food_id=11'],
+        'POST /food-entries/v1?food_id=12': { error: { code: '106', message: 'Invalid ID' } },
+        // Only the new entry may be deleted; deleting an original would fail with a 404
+        'DELETE /food-entries/v1?food_entry_id=101': DELETED,
+      },
+    });
+    try {
+      const result = await server.call('move_food_entries', args);
+      const { moved, failed, results } = result.structuredContent as MoveResult;
+      assert.equal(moved, 0);
+      assert.equal(failed, 2);
+      assert.deepEqual(
+        results.map((item) => [item.food_entry_id, item.new_food_entry_id, item.error]),
+        [
+          [1, undefined, 'Not moved because another entry could not be re-created'],
+          [2, undefined, 'Invalid ID'],
+        ],
+      );
+      assert.equal(server.requests().filter((request) => request.startsWith('DELETE')).length, 1);
+      assert.throws(() => readFileSync(join(server.configDir, 'undo.json'), 'utf-8'));
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('reports a failed delete as a partial move that undo can revert', async () => {
+    const server = await startServer({
+      fixtures: {
+        'GET /food-entries/v2': ENTRIES,
+        ...CREATED,
+        'DELETE /food-entries/v1?food_entry_id=1': DELETED,
+      },
+    });
+    try {
+      const result = await server.call('move_food_entries', args);
+      const { moved, failed, results } = result.structuredContent as MoveResult;
+      assert.equal(moved, 1);
+      assert.equal(failed, 1);
+      assert.equal(results[1].moved, false);
+      assert.equal(results[1].new_food_entry_id, 102);
+      assert.match(
+        results[1].error ?? '',
+        /^Created the new entry but could not delete the original/,
+      );
+
+      const [record] = JSON.parse(readFileSync(join(server.configDir, 'undo.json'), 'utf-8'));
+      assert.deepEqual(record.actions, [
+        {
+          type: 'create_food_entry',
+          food_id: 11,
+          food_entry_name: 'Food 1',
+          serving_id: 100,
+          number_of_units: 1,
+          meal: 'breakfast',
+          date: '2025-01-01',
+        },
+        { type: 'delete_food_entry', food_entry_id: 101 },
+        { type: 'delete_food_entry', food_entry_id: 102 },
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { z } from 'zod';
+import { UnexpectedResponseError } from '../src/errors.js';
+import { normalizeResponse, parseResponse } from '../src/normalize.js';
+
+describe('normalizeResponse', () => {
+  it('wraps a single collection item in an array', () => {
+    const data = { foods: { food: { food_id: '33691', food_name: 'Banana' } } };
+    assert.deepEqual(normalizeResponse(data), {
+      foods: { food: [{ food_id: 33691, food_name: 'Banana' }] },
+    });
+  });
+
+  it('turns empty collections into empty arrays', () => {
+    assert.deepEqual(normalizeResponse({ food_entries: null }), {
+      food_entries: { food_entry: [] },
+    });
+    assert.deepEqual(normalizeResponse({ saved_meals: '' }), { saved_meals: { saved_meal: [] } });
+    assert.deepEqual(normalizeResponse({ recipes: { total_results: '0' } }), {
+      recipes: { total_results: 0, recipe: [] },
+    });
+  });
+
+  it('converts plain decimals but keeps barcodes, exponents and text fields', () => {
+    const data = {
+      calories: '105.5',
+      fat: '-0.3',
+      barcode: '0041570054161',
+      code: '007',
+      big: '1e5',
+      food_name: '123',
+      food_description: '42',
+    };
+    assert.deepEqual(normalizeResponse(data), {
+      calories: 105.5,
+      fat: -0.3,
+      barcode: '0041570054161',
+      code: '007',
+      big: '1e5',
+      food_name: '123',
+      food_description: '42',
+    });
+  });
+
+  it('keeps echoed tool arguments as given', () => {
+    const data = {
+      entries: [
+        {
+          arguments: { food_id: '33691', date: '2026-10-01' },
+          result_ids: { food_entry_id: ['17'] },
+        },
+      ],
+    };
+    assert.deepEqual(normalizeResponse(data), {
+      entries: [
+        {
+          arguments: { food_id: '33691', date: '2026-10-01' },
+          result_ids: { food_entry_id: [17] },
+        },
+      ],
+    });
+  });
+
+  it('adds ISO siblings to date_int fields', () => {
+    assert.deepEqual(normalizeResponse({ date_int: '20000', from_date_int: '0' }), {
+      date_int: 20000,
+      date: '2024-10-04',
+      from_date_int: 0,
+      from_date: '1970-01-01',
+    });
+  });
+});
+
+describe('parseResponse', () => {
+  const schema = z.object({ food: z.object({ food_id: z.number() }) });
+
+  it('validates the normalized response', () => {
+    assert.deepEqual(parseResponse(schema, { food: { food_id: '1' } }, 'get_food'), {
+      food: { food_id: 1 },
+    });
+  });
+
+  it('throws UnexpectedResponseError naming the failing path', () => {
+    assert.throws(
+      () => parseResponse(schema, { food: {} }, 'get_food'),
+      (err) =>
+        err instanceof UnexpectedResponseError && /get_food: food\.food_id/.test(err.message),
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { macroPercentages, nutritionReport, summarizeByMeal, toMeal } from '../src/nutrition.js';
+
+describe('macroPercentages', () => {
+  it('splits macro calories at 4, 4 and 9 kcal per gram', () => {
+    assert.deepEqual(macroPercentages({ protein: 25, carbohydrate: 25, fat: 0 }), {
+      protein: 50,
+      carbohydrate: 50,
+      fat: 0,
+    });
+    assert.deepEqual(macroPercentages({ protein: 10, carbohydrate: 10, fat: 10 }), {
+      protein: 23.5,
+      carbohydrate: 23.5,
+      fat: 52.9,
+    });
+  });
+
+  it('rounds to one decimal', () => {
+    assert.deepEqual(macroPercentages({ protein: 1, carbohydrate: 1, fat: 4 / 9 }), {
+      protein: 33.3,
+      carbohydrate: 33.3,
+      fat: 33.3,
+    });
+  });
+
+  it('returns zeros without macro calories', () => {
+    assert.deepEqual(macroPercentages({ protein: 0, carbohydrate: 0, fat: 0 }), {
+      protein: 0,
+      carbohydrate: 0,
+      fat: 0,
+    });
+  });
+});
+
+describe('toMeal', () => {
+  it('maps FatSecret meal labels onto meal names', () => {
+    assert.equal(toMeal('Breakfast'), 'breakfast');
+    assert.equal(toMeal('dinner'), 'dinner');
+    assert.equal(toMeal('Snacks/Other'), 'other');
+    assert.equal(toMeal(undefined), 'other');
+  });
+});
+
+describe('summarizeByMeal', () => {
+  it('totals the day and each meal', () => {
+    const summary = summarizeByMeal([
+      { meal: 'Breakfast', calories: '300', protein: 20, carbohydrate: 30, fat: 10 },
+      { meal: 'Breakfast', calories: 100.255, protein: 'n/a' },
+      { meal: 'Dinner', calories: 500, protein: 40, carbohydrate: 50, fat: 15 },
+    ]);
+    assert.equal(summary.entry_count, 3);
+    assert.equal(summary.totals.calories, 900.26);
+    assert.equal(summary.totals.protein, 60);
+    assert.deepEqual(
+      summary.meals.map(({ meal, entry_count, totals }) => [meal, entry_count, totals.calories]),
+      [
+        ['breakfast', 2, 400.26],
+        ['lunch', 0, 0],
+        ['dinner', 1, 500],
+        ['other', 0, 0],
+      ],
+    );
+  });
+
+  it('includes missing meals with zeros', () => {
+    const lunch = summarizeByMeal([{ meal: 'Dinner', calories: 500 }]).meals[1];
+    assert.equal(lunch.meal, 'lunch');
+    assert.equal(lunch.entry_count, 0);
+    assert.ok(Object.values(lunch.totals).every((value) => value === 0));
+    assert.deepEqual(lunch.macro_percentages, { protein: 0, carbohydrate: 0, fat: 0 });
+  });
+
+  it('summarizes an empty day', () => {
+    const summary = summarizeByMeal([]);
+    assert.equal(summary.entry_count, 0);
+    assert.equal(summary.totals.calories, 0);
+    assert.equal(summary.meals.length, 4);
+    assert.ok(summary.meals.every((meal) => meal.entry_count === 0));
+  });
+});
+
+describe('nutritionReport', () => {
+  const dates = ['2025-01-01', '2025-01-02', '2025-01-03', '2025-01-04'];
+
+  it('merges food, exercise and weight into one row per date', () => {
+    const report = nutritionReport(
+      dates,
+      [
+        { date: '2025-01-01', calories: 2000, protein: 100, carbohydrate: 250, fat: 60 },
+        { date: '2025-01-03', calories: 1500, protein: 80 },
+      ],
+      [
+        { date: '2025-01-01', calories: 300 },
+        { date: '2025-01-02', calories: 500 },
+      ],
+      [
+        { date: '2025-01-02', weight_kg: 80.5 },
+        { date: '2025-01-04', weight_kg: 79.8 },
+      ],
+    );
+    assert.deepEqual(report.days, [
+      {
+        date: '2025-01-01',
+        calories: 2000,
+        carbohydrate: 250,
+        protein: 100,
+        fat: 60,
+        exercise_calories: 300,
+        net_calories: 1700,
+      },
+      { date: '2025-01-02', exercise_calories: 500, weight_kg: 80.5 },
+      {
+        date: '2025-01-03',
+        calories: 1500,
+        carbohydrate: 0,
+        protein: 80,
+        fat: 0,
+        net_calories: 1500,
+      },
+      { date: '2025-01-04', weight_kg: 79.8 },
+    ]);
+    assert.equal(report.day_count, 4);
+    assert.deepEqual(report.logged_days, { food: 2, exercise: 2, weight: 2 });
+    assert.equal(report.totals.calories, 3500);
+    assert.equal(report.totals.exercise_calories, 800);
+    // Exercise on a day without food is not subtracted from the net
+    assert.equal(report.totals.net_calories, 3200);
+    assert.deepEqual(report.weight, {
+      start_kg: 80.5,
+      end_kg: 79.8,
+      change_kg: -0.7,
+      min_kg: 79.8,
+      max_kg: 80.5,
+    });
+  });
+
+  it('averages only over days with data', () => {
+    const report = nutritionReport(
+      dates,
+      [
+        { date: '2025-01-01', calories: 2000 },
+        { date: '2025-01-02', calories: 1001 },
+      ],
+      [{ date: '2025-01-01', calories: 400 }],
+      [],
+    );
+    assert.equal(report.averages.calories, 1500.5);
+    assert.equal(report.averages.exercise_calories, 400);
+    assert.equal(report.averages.net_calories, 1300.5);
+  });
+
+  it('counts a logged zero-calorie day as the lowest', () => {
+    const report = nutritionReport(
+      dates,
+      [
+        { date: '2025-01-01', calories: 1800 },
+        { date: '2025-01-02', calories: 0 },
+        { date: '2025-01-03', calories: 2200 },
+      ],
+      [],
+      [],
+    );
+    assert.equal(report.logged_days.food, 3);
+    assert.equal(report.averages.calories, 1333.33);
+    assert.deepEqual(report.min_calories_day, { date: '2025-01-02', calories: 0 });
+    assert.deepEqual(report.max_calories_day, { date: '2025-01-03', calories: 2200 });
+    assert.deepEqual(report.macro_percentages, { protein: 0, carbohydrate: 0, fat: 0 });
+  });
+
+  it('reports a range without data', () => {
+    const report = nutritionReport(dates, [], [], []);
+    assert.equal(report.start_date, '2025-01-01');
+    assert.equal(report.end_date, '2025-01-04');
+    assert.deepEqual(report.logged_days, { food: 0, exercise: 0, weight: 0 });
+    assert.equal(report.totals.calories, 0);
+    assert.ok(Object.values(report.averages).every((value) => value === null));
+    assert.equal(report.min_calories_day, null);
+    assert.equal(report.weight, null);
+    assert.deepEqual(
+      report.days,
+      dates.map((date) => ({ date })),
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { startOAuthCallbackServer, type OAuthCallbackServer } from '../src/oauth-callback.js';
+
+describe('startOAuthCallbackServer', () => {
+  it('shows the success page when onCallback closes the server', async () => {
+    const received: string[] = [];
+    // finishAuth closes the callback server from inside onCallback
+    const callback: OAuthCallbackServer = await startOAuthCallbackServer({
+      port: 0,
+      timeoutMs: 5000,
+      onCallback: async (oauthToken, verifier) => {
+        received.push(oauthToken, verifier);
+        callback.close();
+      },
+    });
+
+    const res = await fetch(`${callback.callbackUrl}?oauth_token=token&oauth_verifier=1234`);
+    assert.equal(res.status, 200);
+    assert.match(await res.text(), /FatSecret authorized/);
+    assert.deepEqual(received, ['token', '1234']);
+    await assert.rejects(fetch(`${callback.callbackUrl}?oauth_token=token&oauth_verifier=1234`));
+  });
+
+  it('reports a missing verifier and a failed exchange', async () => {
+    const callback = await startOAuthCallbackServer({
+      port: 0,
+      timeoutMs: 5000,
+      onCallback: async () => {
+        throw new Error('Token <expired>');
+      },
+    });
+    try {
+      const missing = await fetch(`${callback.callbackUrl}?oauth_token=token`);
+      assert.equal(missing.status, 400);
+      assert.match(await missing.text(), /did not include an OAuth verifier/);
+
+      const failed = await fetch(`${callback.callbackUrl}?oauth_token=token&oauth_verifier=1`);
+      assert.equal(failed.status, 500);
+      assert.match(await failed.text(), /Token &#60;expired&#62;/);
+
+      assert.equal((await fetch(callback.callbackUrl.replace('/callback', '/other'))).status, 404);
+    } finally {
+      callback.close();
+    }
+  });
+});
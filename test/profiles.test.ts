@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { startServer, type TestServer } from './helpers/server.js';
+
+const tokens = (name: string) => ({
+  accessToken: `token-${name}`,
+  accessTokenSecret: `secret-${name}`,
+});
+// Two authorized profiles with "alex" active, and no pre-profiles top-level tokens
+const PROFILES = {
+  accessToken: undefined,
+  accessTokenSecret: undefined,
+  activeProfile: 'alex',
+  profiles: { default: tokens('default'), alex: tokens('alex') },
+};
+// Diary entries answered per signing token, to tell which profile a call used
+const fixtures = Object.fromEntries(
+  ['token', 'token-default', 'token-alex'].map((token) => [
+    `GET /food-entries/v2?oauth_token=${token}`,
+    { food_entries: { food_entry: { food_entry_id: '1', food_entry_name: `Signed by ${token}` } } },
+  ]),
+);
+
+const savedConfig = (server: TestServer) =>
+  JSON.parse(readFileSync(join(server.configDir, 'config.json'), 'utf-8'));
+const signedBy = async (server: TestServer, args: Record<string, unknown> = {}) => {
+  const result = await server.call('get_food_entries', { date: '2025-01-01', ...args });
+  const content = result.structuredContent as {
+    food_entries: { food_entry: { food_entry_name: string }[] };
+  };
+  return content.food_entries.food_entry[0].food_entry_name;
+};
+
+describe('account profiles', () => {
+  it('migrates top-level tokens into the default profile', async () => {
+    const server = await startServer({ fixtures });
+    try {
+      const status = await server.call('list_profiles');
+      assert.deepEqual(status.structuredContent, {
+        active_profile: 'default',
+        profiles: [{ name: 'default', active: true, authenticated: true }],
+      });
+      assert.equal(await signedBy(server), 'Signed by token');
+
+      await server.call('switch_profile', { profile: 'default' });
+      const config = savedConfig(server);
+      assert.deepEqual(config.profiles, {
+        default: { accessToken: 'token', accessTokenSecret: 'token-secret' },
+      });
+      assert.equal(config.accessToken, undefined);
+      assert.equal(config.accessTokenSecret, undefined);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('uses the active profile when no profile is given', async () => {
+    const server = await startServer({ config: PROFILES, fixtures });
+    try {
+      assert.equal(await signedBy(server), 'Signed by token-alex');
+      assert.equal(await signedBy(server, { profile: 'default' }), 'Signed by token-default');
+
+      await server.call('switch_profile', { profile: 'default' });
+      assert.equal(await signedBy(server), 'Signed by token-default');
+      assert.equal(savedConfig(server).activeProfile, 'default');
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('makes another profile active when the active one is removed', async () => {
+    const server = await startServer({ config: PROFILES, fixtures });
+    try {
+      const result = await server.call('remove_profile', { profile: 'alex' });
+      assert.deepEqual(result.structuredContent, {
+        message: 'Removed profile "alex".',
+        active_profile: 'default',
+        profiles: [{ name: 'default', active: true, authenticated: true }],
+      });
+      assert.equal(await signedBy(server), 'Signed by token-default');
+      const config = savedConfig(server);
+      assert.equal(config.activeProfile, 'default');
+      assert.deepEqual(Object.keys(config.profiles), ['default']);
+
+      const last = await server.call('remove_profile', { profile: 'default' });
+      assert.deepEqual(last.structuredContent?.profiles, [
+        { name: 'default', active: true, authenticated: false },
+      ]);
+      const unauthorized = await server.call('get_food_entries', { date: '2025-01-01' });
+      assert.equal(unauthorized.isError, true);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { InvalidParameterError } from '../src/errors.js';
+import { batchFactor, batchNutrition, recipeFoodKey, scaleRecipe } from '../src/recipes.js';
+import type { Recipe } from '../src/schemas.js';
+import { startServer } from './helpers/server.js';
+
+const RECIPE: Recipe = {
+  recipe_id: 7,
+  recipe_name: 'Pancakes',
+  number_of_servings: 4,
+  grams_per_portion: 150,
+  serving_sizes: { serving: [{ serving_size: '1 serving', calories: 300, protein: 8.5, fat: 10 }] },
+  ingredients: {
+    ingredient: [
+      {
+        food_id: 1,
+        number_of_units: 2,
+        measurement_description: 'cup',
+        ingredient_description: '2 cups flour',
+      },
+      { food_id: 2, ingredient_description: 'a pinch of salt' },
+    ],
+  },
+};
+
+describe('batchFactor', () => {
+  it('prefers yield, then servings, then the multiplier', () => {
+    assert.equal(batchFactor(RECIPE, { yield_g: 900, servings: 2, multiplier: 3 }), 1.5);
+    assert.equal(batchFactor(RECIPE, { servings: 2, multiplier: 3 }), 0.5);
+    assert.equal(batchFactor(RECIPE, { multiplier: 3 }), 3);
+    assert.equal(batchFactor(RECIPE, {}), 1);
+  });
+
+  it('rejects a yield for recipes without a weight', () => {
+    assert.throws(
+      () => batchFactor({ ...RECIPE, grams_per_portion: undefined }, { yield_g: 500 }),
+      InvalidParameterError,
+    );
+  });
+});
+
+describe('scaleRecipe', () => {
+  it('scales ingredients and keeps the portion size by default', () => {
+    const scaled = scaleRecipe(RECIPE, 1.5);
+    assert.equal(scaled.number_of_servings, 6);
+    assert.equal(scaled.grams_per_portion, 150);
+    assert.deepEqual(scaled.serving_sizes, RECIPE.serving_sizes);
+    assert.equal(scaled.ingredients?.ingredient[0].number_of_units, 3);
+    assert.equal(scaled.ingredients?.ingredient[0].ingredient_description, '2 cups flour');
+    assert.equal(scaled.ingredients?.ingredient[1].number_of_units, undefined);
+  });
+
+  it('changes portions when the batch is split into other servings', () => {
+    const scaled = scaleRecipe(RECIPE, 2, 4);
+    assert.equal(scaled.number_of_servings, 4);
+    assert.equal(scaled.grams_per_portion, 300);
+    assert.deepEqual(scaled.serving_sizes?.serving[0], {
+      serving_size: '1 serving',
+      calories: 600,
+      protein: 17,
+      fat: 20,
+    });
+  });
+});
+
+describe('batchNutrition', () => {
+  it('multiplies the first serving by the number of servings', () => {
+    assert.deepEqual(batchNutrition(scaleRecipe(RECIPE, 0.5)), {
+      calories: 600,
+      fat: 20,
+      protein: 17,
+    });
+    assert.deepEqual(batchNutrition({ recipe_id: 1, recipe_name: 'Empty' }), {});
+  });
+});
+
+describe('recipeFoodKey', () => {
+  it('changes with the portion and nutrition only', () => {
+    const key = recipeFoodKey(RECIPE);
+    assert.equal(recipeFoodKey({ ...RECIPE, recipe_name: 'Fluffy pancakes' }), key);
+    assert.equal(recipeFoodKey(scaleRecipe(RECIPE, 2)), key);
+    assert.notEqual(recipeFoodKey(scaleRecipe(RECIPE, 2, 4)), key);
+    assert.notEqual(recipeFoodKey({ ...RECIPE, recipe_id: 8 }), key);
+  });
+});
+
+describe('log_recipe with mode "recipe"', () => {
+  const fixtures = {
+    'GET /recipe/v2': {
+      recipe: {
+        recipe_id: '7',
+        recipe_name: 'Pancakes',
+        number_of_servings: '4',
+        grams_per_portion: '150',
+        serving_sizes: { serving: { serving_size: '1 serving', calories: '300', protein: '8.5' } },
+      },
+    },
+    'POST /food/v2': { food_id: { value: '500' } },
+    'GET /food/v5': {
+      food: {
+        food_id: '500',
+        food_name: 'Pancakes',
+        servings: {
+          serving: { serving_id: '50', measurement_description: 'serving', number_of_units: '1' },
+        },
+      },
+    },
+    'POST /food-entries/v1': { food_entry_id: { value: '9' } },
+  };
+  const args = { recipe_id: 7, servings: 2, meal: 'breakfast', mode: 'recipe' };
+
+  it('creates the custom food once and reuses it', async () => {
+    const server = await startServer({ fixtures });
+    try {
+      const first = await server.call('log_recipe', args);
+      assert.equal(first.isError, undefined);
+      assert.equal(first.structuredContent?.recipe_food_id, 500);
+      assert.equal(first.structuredContent?.custom_food_id, 500);
+
+      const second = await server.call('log_recipe', args);
+      assert.equal(second.structuredContent?.recipe_food_id, 500);
+      assert.equal(second.structuredContent?.custom_food_id, undefined);
+      assert.deepEqual(
+        server.requests().filter((request) => request === 'POST /food/v2'),
+        ['POST /food/v2'],
+      );
+      const stored = JSON.parse(readFileSync(join(server.configDir, 'recipe-foods.json'), 'utf-8'));
+      assert.deepEqual(Object.values(stored.default), [500]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('keeps the custom food on undo and says so', async () => {
+    const server = await startServer({
+      fixtures: { ...fixtures, 'DELETE /food-entries/v1': { success: { value: '1' } } },
+    });
+    try {
+      await server.call('log_recipe', args);
+      await server.call('log_recipe', args);
+      const undone = (await server.call('undo_last_change', { count: 2 })).structuredContent
+        ?.undone as {
+        kept_custom_food_ids?: number[];
+      }[];
+      assert.deepEqual(
+        undone.map((change) => change.kept_custom_food_ids),
+        [undefined, [500]],
+      );
+      assert.deepEqual(
+        server.requests().filter((request) => request.startsWith('DELETE')),
+        ['DELETE /food-entries/v1', 'DELETE /food-entries/v1'],
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import createClient from 'openapi-fetch';
+import type { paths as ProfilePaths } from '../src/generated/profile-api.js';
+import type { paths as PublicPaths } from '../src/generated/public-api.js';
+import { TokenBucket, retryMiddleware, type RetryOptions } from '../src/retry.js';
+
+type Reply = Response | Error;
+
+describe('retryMiddleware', () => {
+  let calls: Request[];
+
+  // Every request, first or retried, goes through the global fetch, answered from `replies` in order
+  const stubFetch = (replies: Reply[]) => {
+    calls = [];
+    mock.method(globalThis, 'fetch', async (request: Request) => {
+      calls.push(request);
+      const reply = replies[Math.min(calls.length, replies.length) - 1];
+      if (reply instanceof Error) throw reply;
+      return reply.clone();
+    });
+  };
+  const middleware = (options: Partial<RetryOptions> = {}) =>
+    retryMiddleware({ retries: 2, baseDelayMs: 0, maxDelayMs: 0, ...options });
+  const clientWith = (replies: Reply[], options: Partial<RetryOptions> = {}) => {
+    stubFetch(replies);
+    const client = createClient<PublicPaths>({ baseUrl: 'https://api.example.test/rest' });
+    client.use(middleware(options));
+    return client;
+  };
+  const getFood = (client: ReturnType<typeof clientWith>) =>
+    client.GET('/food/v5', { params: { query: { food_id: 1, format: 'json' } } });
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(() => {
+    mock.restoreAll();
+    mock.method(console, 'error', () => undefined);
+  });
+
+  it('retries 5xx responses until one succeeds', async () => {
+    const { data } = await getFood(clientWith([json({}, 503), json({}, 502), json({ food: {} })]));
+    assert.equal(calls.length, 3);
+    assert.deepEqual(data, { food: {} });
+  });
+
+  it('sends at most retries + 1 requests when every attempt fails', async () => {
+    const { response } = await getFood(clientWith([json({}, 500)]));
+    assert.equal(calls.length, 3);
+    assert.equal(response.status, 500);
+  });
+
+  it('does not retry again a response returned after network errors', async () => {
+    const { response } = await getFood(clientWith([new TypeError('fetch failed'), json({}, 503)]));
+    assert.equal(calls.length, 3);
+    assert.equal(response.status, 503);
+  });
+
+  it('rethrows the last network error once retries run out', async () => {
+    await assert.rejects(getFood(clientWith([new TypeError('fetch failed')])), /fetch failed/);
+    assert.equal(calls.length, 3);
+  });
+
+  it('retries rate limit errors reported with HTTP 200', async () => {
+    const limited = json({ error: { code: 12, message: 'User is performing too many actions' } });
+    const { data } = await getFood(clientWith([limited, json({ food: {} })]));
+    assert.equal(calls.length, 2);
+    assert.deepEqual(data, { food: {} });
+  });
+
+  it('sends other methods once', async () => {
+    stubFetch([json({}, 503)]);
+    const client = createClient<ProfilePaths>({ baseUrl: 'https://api.example.test/rest' });
+    client.use(middleware());
+    await client.POST('/saved-meals/v1', {
+      params: { query: { saved_meal_name: 'Lunch', format: 'json' } },
+    });
+    assert.equal(calls.length, 1);
+  });
+
+  it('prepares every retry', async () => {
+    const prepareRetry = mock.fn(
+      (request: Request) => new Request(request, { headers: { 'X-Retry': '1' } }),
+    );
+    await getFood(clientWith([json({}, 503), json({ food: {} })], { prepareRetry }));
+    assert.equal(prepareRetry.mock.callCount(), 1);
+    assert.equal(calls[0].headers.get('X-Retry'), null);
+    assert.equal(calls[1].headers.get('X-Retry'), '1');
+  });
+});
+
+describe('TokenBucket', () => {
+  it('allows a burst of `capacity` and then throttles to the rate', async () => {
+    const bucket = new TokenBucket(20, 2);
+    const start = Date.now();
+    await Promise.all([bucket.take(), bucket.take()]);
+    assert.ok(Date.now() - start < 40);
+    await bucket.take();
+    await bucket.take();
+    assert.ok(Date.now() - start >= 90, `took ${Date.now() - start}ms`);
+  });
+
+  it('serves callers in order', async () => {
+    const bucket = new TokenBucket(50, 1);
+    const order: number[] = [];
+    await Promise.all([1, 2, 3, 4].map((n) => bucket.take().then(() => order.push(n))));
+    assert.deepEqual(order, [1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchServing, normalizeUnit, servingNutrition, type Serving } from '../src/servings.js';
+
+const CUP: Serving = {
+  serving_id: 1,
+  measurement_description: 'cup, chopped',
+  number_of_units: 1,
+  metric_serving_amount: 150,
+  metric_serving_unit: 'g',
+  calories: 90,
+  protein: 3,
+};
+const GRAMS: Serving = {
+  serving_id: 2,
+  measurement_description: 'g',
+  number_of_units: 100,
+  metric_serving_amount: 100,
+  metric_serving_unit: 'g',
+};
+const LARGE: Serving = {
+  serving_id: 3,
+  measurement_description: 'large',
+  number_of_units: 1,
+  metric_serving_amount: 50,
+  metric_serving_unit: 'g',
+  is_default: 1,
+};
+
+describe('normalizeUnit', () => {
+  it('maps spellings to canonical units', () => {
+    assert.equal(normalizeUnit('Tablespoons'), 'tbsp');
+    assert.equal(normalizeUnit('fluid ounces'), 'fl oz');
+    assert.equal(normalizeUnit('oz.'), 'oz');
+    assert.equal(normalizeUnit('slices'), 'slice');
+    assert.equal(normalizeUnit('handful'), undefined);
+  });
+});
+
+describe('matchServing', () => {
+  it('prefers a serving measured in the requested unit', () => {
+    assert.deepEqual(matchServing([GRAMS, CUP], 2, 'cups'), {
+      serving: CUP,
+      number_of_units: 2,
+      match: 'unit',
+    });
+  });
+
+  it('converts weights through the metric serving size', () => {
+    const match = matchServing([LARGE, CUP], 4, 'oz');
+    assert.equal(match?.serving, LARGE);
+    assert.equal(match?.match, 'metric');
+    assert.equal(match?.number_of_units, 2.268);
+  });
+
+  it('converts between volumes without a metric size', () => {
+    const tbsp: Serving = { serving_id: 4, measurement_description: 'tbsp', number_of_units: 1 };
+    assert.deepEqual(matchServing([tbsp], 1, 'cup'), {
+      serving: tbsp,
+      number_of_units: 16,
+      match: 'metric',
+    });
+  });
+
+  it('counts natural units without a unit, and whole servings for "serving"', () => {
+    assert.deepEqual(matchServing([GRAMS, LARGE], 2), {
+      serving: LARGE,
+      number_of_units: 2,
+      match: 'count',
+    });
+    assert.deepEqual(matchServing([GRAMS], 1.5, 'servings'), {
+      serving: GRAMS,
+      number_of_units: 150,
+      match: 'count',
+    });
+  });
+
+  it('returns undefined when a weight or volume does not map', () => {
+    assert.equal(
+      matchServing([{ serving_id: 5, measurement_description: 'large' }], 100, 'g'),
+      undefined,
+    );
+    assert.equal(matchServing([], 1), undefined);
+  });
+});
+
+describe('servingNutrition', () => {
+  it('scales macros to the number of units', () => {
+    assert.deepEqual(servingNutrition(CUP, 1.5), {
+      calories: 135,
+      protein: 4.5,
+      carbohydrate: 0,
+      fat: 0,
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  buildShoppingList,
+  type ShoppingFood,
+  type ShoppingIngredient,
+} from '../src/shopping-list.js';
+import { metricAmount } from '../src/servings.js';
+import { startServer } from './helpers/server.js';
+
+const FLOUR: ShoppingFood = {
+  food_name: 'Flour',
+  category: 'Baking',
+  servings: [
+    {
+      serving_id: 10,
+      measurement_description: 'cup',
+      number_of_units: 1,
+      metric_serving_amount: 125,
+      metric_serving_unit: 'g',
+    },
+    {
+      serving_id: 11,
+      measurement_description: 'g',
+      number_of_units: 100,
+      metric_serving_amount: 100,
+      metric_serving_unit: 'g',
+    },
+  ],
+};
+const EGGS: ShoppingFood = {
+  food_name: 'Egg',
+  category: 'Eggs',
+  servings: [
+    {
+      serving_id: 20,
+      measurement_description: 'large',
+      number_of_units: 1,
+      metric_serving_amount: 50,
+      metric_serving_unit: 'g',
+    },
+  ],
+};
+
+describe('metricAmount', () => {
+  it('converts servings measured by weight or volume through their metric size', () => {
+    assert.deepEqual(metricAmount(FLOUR.servings[0], 2), { amount: 250, unit: 'g' });
+    assert.deepEqual(metricAmount({ measurement_description: 'tbsp' }, 2), {
+      amount: 29.5736,
+      unit: 'ml',
+    });
+  });
+
+  it('leaves counted servings alone', () => {
+    assert.equal(metricAmount(EGGS.servings[0], 3), undefined);
+  });
+});
+
+describe('buildShoppingList', () => {
+  const ingredients: ShoppingIngredient[] = [
+    { recipe_id: 1, food_id: 1, serving_id: 10, number_of_units: 8 },
+    { recipe_id: 2, food_id: 1, serving_id: 11, number_of_units: 500 },
+    { recipe_id: 1, food_id: 2, serving_id: 20, number_of_units: 2 },
+    {
+      recipe_id: 2,
+      food_id: 2,
+      serving_id: 20,
+      number_of_units: 1.5,
+      measurement_description: 'Large',
+    },
+    {
+      recipe_id: 2,
+      food_id: 3,
+      food_name: 'Salt',
+      number_of_units: 1,
+      measurement_description: 'pinch',
+    },
+  ];
+  const foods = new Map([
+    [1, FLOUR],
+    [2, EGGS],
+  ]);
+
+  it('adds up compatible amounts per food and groups by category, uncategorized last', () => {
+    assert.deepEqual(buildShoppingList(ingredients, foods), [
+      {
+        category: 'Baking',
+        items: [
+          {
+            food_id: 1,
+            food_name: 'Flour',
+            quantities: [{ amount: 1.5, unit: 'kg' }],
+            recipe_ids: [1, 2],
+          },
+        ],
+      },
+      {
+        category: 'Eggs',
+        items: [
+          {
+            food_id: 2,
+            food_name: 'Egg',
+            quantities: [{ amount: 3.5, unit: 'large' }],
+            recipe_ids: [1, 2],
+          },
+        ],
+      },
+      {
+        category: 'Other',
+        items: [
+          {
+            food_id: 3,
+            food_name: 'Salt',
+            quantities: [{ amount: 1, unit: 'pinch' }],
+            recipe_ids: [2],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps incompatible units as separate quantities', () => {
+    const list = buildShoppingList(
+      [
+        { recipe_id: 1, food_id: 1, serving_id: 11, number_of_units: 200 },
+        { recipe_id: 1, food_id: 1, number_of_units: 2, measurement_description: 'handful' },
+      ],
+      foods,
+    );
+    assert.deepEqual(list[0].items[0].quantities, [
+      { amount: 200, unit: 'g' },
+      { amount: 2, unit: 'handful' },
+    ]);
+  });
+});
+
+describe('build_shopping_list', () => {
+  const fixtures = {
+    'GET /recipe/v2': {
+      recipe: {
+        recipe_id: '7',
+        recipe_name: 'Pancakes',
+        number_of_servings: '4',
+        ingredients: {
+          ingredient: {
+            food_id: '1',
+            serving_id: '10',
+            number_of_units: '2',
+            measurement_description: 'cup',
+          },
+        },
+      },
+    },
+    'GET /food/v5': {
+      food: {
+        food_id: '1',
+        food_name: 'Flour',
+        servings: {
+          serving: {
+            serving_id: '10',
+            measurement_description: 'cup',
+            number_of_units: '1',
+            metric_serving_amount: '125',
+            metric_serving_unit: 'g',
+          },
+        },
+      },
+    },
+    'GET /food/v5?include_sub_categories=true': { error: { code: 14, message: 'Missing scope' } },
+  };
+
+  it('does not ask for categories by default', async () => {
+    const server = await startServer({ fixtures });
+    try {
+      const result = await server.call('build_shopping_list', {
+        recipes: [{ recipe_id: 7, multiplier: 2 }],
+      });
+      assert.equal(result.isError, undefined);
+      const { categories, notes } = result.structuredContent as {
+        categories: unknown;
+        notes?: string[];
+      };
+      assert.deepEqual(categories, [
+        {
+          category: 'Other',
+          items: [
+            {
+              food_id: 1,
+              food_name: 'Flour',
+              quantities: [{ amount: 500, unit: 'g' }],
+              recipe_ids: [7],
+            },
+          ],
+        },
+      ]);
+      assert.equal(notes, undefined);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('falls back to an ungrouped list when categories need a Premier key', async () => {
+    const server = await startServer({ fixtures });
+    try {
+      const result = await server.call('build_shopping_list', {
+        recipes: [{ recipe_id: 7 }],
+        group_by_category: true,
+      });
+      assert.equal(result.isError, undefined);
+      const { categories, notes } = result.structuredContent as {
+        categories: { category: string }[];
+        notes?: string[];
+      };
+      assert.deepEqual(
+        categories.map((c) => c.category),
+        ['Other'],
+      );
+      assert.equal(notes?.length, 1);
+      assert.deepEqual(server.requests(), ['GET /recipe/v2', 'GET /food/v5', 'GET /food/v5']);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ToolFilter, parseToolList } from '../src/tool-filter.js';
+
+const READ = { readOnlyHint: true };
+const WRITE = { readOnlyHint: false };
+
+describe('parseToolList', () => {
+  it('splits and normalizes entries', () => {
+    assert.deepEqual(parseToolList(' public, Saved Meals ,get_food_entries,,saved-meals'), [
+      'public',
+      'saved_meals',
+      'get_food_entries',
+      'saved_meals',
+    ]);
+    assert.equal(parseToolList(''), undefined);
+    assert.equal(parseToolList(undefined), undefined);
+  });
+});
+
+describe('ToolFilter', () => {
+  it('includes everything by default', () => {
+    const filter = new ToolFilter();
+    assert.equal(filter.active, false);
+    assert.equal(filter.includes('delete_food_entry', 'diary', WRITE), true);
+  });
+
+  it('keeps only tools annotated read-only in read-only mode', () => {
+    const filter = new ToolFilter({ readOnly: true });
+    assert.equal(filter.includes('get_food_entries', 'diary', READ), true);
+    assert.equal(filter.includes('delete_food_entry', 'diary', WRITE), false);
+    assert.equal(filter.includes('unannotated', 'diary'), false);
+  });
+
+  it('matches allow and deny lists by tool or group, deny first', () => {
+    const filter = new ToolFilter({
+      allow: ['public', 'Get-Food-Entries'],
+      deny: ['search_recipes'],
+    });
+    assert.equal(filter.includes('search_foods', 'public', READ), true);
+    assert.equal(filter.includes('search_recipes', 'public', READ), false);
+    assert.equal(filter.includes('get_food_entries', 'diary', READ), true);
+    assert.equal(filter.includes('create_food_entry', 'diary', WRITE), false);
+    assert.equal(
+      new ToolFilter({ allow: ['diary'], deny: ['diary'] }).includes(
+        'get_food_entries',
+        'diary',
+        READ,
+      ),
+      false,
+    );
+  });
+
+  it('reports entries that name no group or tool seen', () => {
+    const filter = new ToolFilter({ allow: ['public', 'search_food'], deny: ['get_food'] });
+    filter.includes('search_foods', 'public', READ);
+    filter.includes('get_food', 'public', READ);
+    assert.deepEqual(filter.unknownEntries(), ['search_food']);
+  });
+
+  it('describes the active settings', () => {
+    assert.equal(
+      new ToolFilter({ readOnly: true, deny: ['weight'] }).describe(),
+      'read-only; deny weight',
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { UndoJournal, type UndoRecord } from '../src/undo.js';
+import { startServer } from './helpers/server.js';
+
+const change = (food_entry_id: number, profile = 'default') => ({
+  tool: 'create_food_entry',
+  profile,
+  arguments: {},
+  actions: [{ type: 'delete_food_entry' as const, food_entry_id }],
+});
+const entryIds = (records: UndoRecord[]) =>
+  records.map((record) =>
+    'food_entry_id' in record.actions[0] ? record.actions[0].food_entry_id : undefined,
+  );
+
+describe('UndoJournal', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fatsecret-undo-'));
+    path = join(dir, 'nested', 'undo.json');
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('returns the latest records newest first, optionally per profile', async () => {
+    const journal = new UndoJournal(path);
+    assert.deepEqual(await journal.latest(5), []);
+    await journal.push(change(1));
+    await journal.push(change(2, 'alex'));
+    await journal.push(change(3));
+
+    assert.deepEqual(entryIds(await journal.latest(2)), [3, 2]);
+    assert.deepEqual(entryIds(await journal.latest(5, 'default')), [3, 1]);
+  });
+
+  it('keeps only the most recent records', async () => {
+    const journal = new UndoJournal(path, 2);
+    for (const id of [1, 2, 3]) await journal.push(change(id));
+    assert.deepEqual(entryIds(await journal.latest(5)), [3, 2]);
+  });
+
+  it('removes records by ID', async () => {
+    const journal = new UndoJournal(path);
+    await journal.push(change(1));
+    await journal.push(change(2));
+    const [latest] = await journal.latest(1);
+    await journal.remove(latest.id);
+    assert.deepEqual(entryIds(await journal.latest(5)), [1]);
+  });
+
+  it('keeps every record of parallel writes, in call order', async () => {
+    const journal = new UndoJournal(path);
+    await Promise.all([1, 2, 3, 4, 5].map((id) => journal.push(change(id))));
+    assert.deepEqual(entryIds(await journal.latest(10)), [5, 4, 3, 2, 1]);
+
+    const records = await journal.latest(10);
+    await Promise.all([
+      journal.remove(records[0].id),
+      journal.push(change(6)),
+      journal.remove(records[4].id),
+    ]);
+    assert.deepEqual(entryIds(await journal.latest(10)), [6, 4, 3, 2]);
+  });
+
+  it('replaces the file atomically and leaves no temporary files', async () => {
+    const journal = new UndoJournal(path);
+    await Promise.all([1, 2, 3].map((id) => journal.push(change(id))));
+    assert.deepEqual(readdirSync(join(dir, 'nested')), ['undo.json']);
+    assert.equal(JSON.parse(readFileSync(path, 'utf-8')).length, 3);
+  });
+});
+
+describe('undo capture', () => {
+  it('records one undo per parallel write', async () => {
+    const server = await startServer({
+      fixtures: { 'POST /food-entries/v1': { food_entry_id: { value: 7 } } },
+    });
+    try {
+      const args = {
+        food_id: 33691,
+        food_entry_name: 'Banana',
+        serving_id: 1,
+        number_of_units: 1,
+        meal: 'other',
+      };
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5].map(() => server.call('create_food_entry', args)),
+      );
+      assert.ok(results.every((result) => !result.isError));
+      assert.equal(
+        JSON.parse(readFileSync(join(server.configDir, 'undo.json'), 'utf-8')).length,
+        5,
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('still makes the write when capturing its undo fails, and says it cannot be undone', async () => {
+    // No fixture for GET /food-entries/v2, so looking up the entry to restore fails
+    const server = await startServer({
+      fixtures: { 'DELETE /food-entries/v1': { success: { value: 1 } } },
+    });
+    try {
+      const result = await server.call('delete_food_entry', { food_entry_id: 5 });
+      assert.equal(result.isError, undefined);
+      const { undo_error, ...content } = result.structuredContent ?? {};
+      assert.deepEqual(content, { success: { value: 1 }, undo_available: false });
+      assert.match(String(undo_error), /Could not read the state to restore/);
+      assert.deepEqual(server.requests(), ['GET /food-entries/v2', 'DELETE /food-entries/v1']);
+      assert.deepEqual((await server.call('undo_last_change')).structuredContent?.undone, []);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('records only the copied entries a copy added to the target date', async () => {
+    const entry = (food_entry_id: number, food_id: number, meal: string) => ({
+      food_entry_id: String(food_entry_id),
+      food_id: String(food_id),
+      serving_id: '100',
+      number_of_units: '1.00',
+      meal,
+    });
+    const server = await startServer({
+      fixtures: {
+        // The source date, then the target date before and after the copy
+        'GET /food-entries/v2#1': {
+          food_entries: { food_entry: [entry(1, 10, 'Breakfast'), entry(2, 11, 'Lunch')] },
+        },
+        'GET /food-entries/v2#2': { food_entries: { food_entry: [entry(5, 10, 'Breakfast')] } },
+        'GET /food-entries/v2#3': {
+          food_entries: {
+            food_entry: [
+              entry(5, 10, 'Breakfast'),
+              entry(6, 10, 'Breakfast'),
+              // Written to the same date by something else during the copy
+              entry(7, 12, 'Breakfast'),
+              entry(8, 11, 'Lunch'),
+            ],
+          },
+        },
+        'POST /food-entries/copy/v1': { success: { value: '1' } },
+      },
+    });
+    try {
+      const result = await server.call('copy_food_entries', {
+        from_date: '2025-01-01',
+        to_date: '2025-01-02',
+        meal: 'breakfast',
+      });
+      assert.equal(result.isError, undefined);
+      const [record] = JSON.parse(readFileSync(join(server.configDir, 'undo.json'), 'utf-8'));
+      assert.deepEqual(record.actions, [{ type: 'delete_food_entry', food_entry_id: 6 }]);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('undo_last_change', () => {
+  it('reverts only the active profile by default', async () => {
+    const server = await startServer({
+      fixtures: { 'DELETE /food-entries/v1': { success: { value: '1' } } },
+    });
+    try {
+      const records = [1, 2].map((id, i) => ({
+        id: String(id),
+        timestamp: new Date(i).toISOString(),
+        ...change(id, id === 1 ? 'default' : 'alex'),
+      }));
+      writeFileSync(join(server.configDir, 'undo.json'), JSON.stringify(records));
+
+      const result = await server.call('undo_last_change', { count: 5 });
+      assert.deepEqual(
+        (result.structuredContent?.undone as { profile: string }[]).map((c) => c.profile),
+        ['default'],
+      );
+      assert.deepEqual(server.requests(), ['DELETE /food-entries/v1']);
+      assert.deepEqual(
+        entryIds(JSON.parse(readFileSync(join(server.configDir, 'undo.json'), 'utf-8'))),
+        [2],
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});